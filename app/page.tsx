@@ -5,12 +5,23 @@ import FolderCanvas from '@/components/canvas/FolderCanvas';
 import Toolbar from '@/components/toolbar/Toolbar';
 import SidePanel from '@/components/side-panel/SidePanel';
 import AreasMenu from '@/components/AreasMenu';
+import ToastStack from '@/components/ToastStack';
+import FolderOperationPrompt from '@/components/FolderOperationPrompt';
 import { useFlowStore } from '@/store/useFlowStore';
+import { subscribeToFileEvents } from '@/lib/api';
+import { readDeepLink } from '@/lib/deepLink';
 
 export default function Home() {
   const theme = useFlowStore((state) => state.theme);
   const isSidebarCollapsed = useFlowStore((state) => state.isSidebarCollapsed);
-  const syncLayouts = useFlowStore((state) => state.syncLayouts);
+  const applyFileSystemEvent = useFlowStore((state) => state.applyFileSystemEvent);
+  const updateFolderOperationProgress = useFlowStore((state) => state.updateFolderOperationProgress);
+  const setEventClientId = useFlowStore((state) => state.setEventClientId);
+  const loadBackendConfig = useFlowStore((state) => state.loadBackendConfig);
+  const restoreSession = useFlowStore((state) => state.restoreSession);
+  const openDeepLink = useFlowStore((state) => state.openDeepLink);
+  const layoutSaveStatus = useFlowStore((state) => state.layoutSaveStatus);
+  const demoMode = useFlowStore((state) => state.demoMode);
 
 
   useEffect(() => {
@@ -18,8 +29,38 @@ export default function Home() {
   }, [theme]);
 
   useEffect(() => {
-    syncLayouts();
-  }, [syncLayouts]);
+    // Preferences and the last session, saved in localStorage
+    useFlowStore.persist.rehydrate();
+    // A shared link wins over the last session. Once opened it is dropped
+    // from the address bar, so reloading goes back to the session.
+    const deepLink = readDeepLink(window.location.search);
+    // The config says whether this is demo mode, which is never autosaved
+    loadBackendConfig().then(async () => {
+      if (!deepLink) {
+        await restoreSession();
+        return;
+      }
+      await openDeepLink(deepLink);
+      window.history.replaceState(null, '', window.location.pathname);
+    });
+  }, [loadBackendConfig, restoreSession, openDeepLink]);
+
+  // Warn before closing the tab while an autosave is pending
+  useEffect(() => {
+    if (layoutSaveStatus !== 'dirty' && layoutSaveStatus !== 'saving' && layoutSaveStatus !== 'error') {
+      return;
+    }
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [layoutSaveStatus]);
+
+  // Patch the canvas when watched folders change on disk
+  useEffect(() => {
+    return subscribeToFileEvents(applyFileSystemEvent, updateFolderOperationProgress, setEventClientId);
+  }, [applyFileSystemEvent, updateFolderOperationProgress, setEventClientId]);
 
   return (
     <div className="flex h-screen w-screen overflow-hidden bg-[var(--color-app-bg)] text-[var(--color-text)]">
@@ -29,11 +70,18 @@ export default function Home() {
           }`}
       >
         <Toolbar />
+        {demoMode && (
+          <div className="border-b border-amber-300/60 bg-amber-100 px-4 py-1.5 text-xs font-medium text-amber-900">
+            Demo mode: the backend is serving sample folders, not your disk.
+          </div>
+        )}
         <div className="relative flex-1">
           <FolderCanvas className="w-full h-full" />
           <AreasMenu />
         </div>
       </div>
+      <ToastStack />
+      <FolderOperationPrompt />
     </div>
   );
 }
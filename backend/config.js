@@ -0,0 +1,166 @@
+/* eslint-disable @typescript-eslint/no-require-imports */
+// Backend configuration
+// Read from backend/config.json (see config.example.json), with environment
+// variables taking precedence:
+//   ALLOWED_ROOTS    folders the API may read, separated by ":" (";" on Windows)
+//   ALLOWED_ORIGINS  comma-separated origins allowed by CORS
+// Open actions ("openActions"), the folder trash ("trashDir", default
+// backend/.trash), the number of revisions kept per saved layout
+// ("layoutHistoryLimit", default 50, 0 keeps none) and the number of
+// subfolders shown per page ("childPageSize", default 200) can only be set in
+// the file.
+
+const path = require("path");
+const fs = require("fs");
+const os = require("os");
+
+const CONFIG_PATH = path.join(__dirname, "config.json");
+const DEFAULT_ORIGINS = ["http://localhost:3000", "http://127.0.0.1:3000"];
+const DEFAULT_TRASH_DIR = path.join(__dirname, ".trash");
+const DEFAULT_LAYOUT_HISTORY_LIMIT = 50;
+const DEFAULT_CHILD_PAGE_SIZE = 200;
+
+/**
+ * Built-in open actions for the current platform. The first one is used when
+ * a node is double-clicked. `{path}` in args or cwd is replaced with the
+ * folder path; commands are started directly, never through a shell.
+ */
+function getDefaultOpenActions(platform = process.platform) {
+  if (platform === "win32") {
+    return [
+      {
+        id: "file-manager",
+        label: "Open in Explorer",
+        icon: "📂",
+        command: "explorer.exe",
+        args: ["{path}"],
+      },
+      {
+        id: "terminal",
+        label: "Open terminal here",
+        icon: "🖥️",
+        command: "cmd.exe",
+        args: ["/c", "start", "cmd.exe"],
+        cwd: "{path}",
+      },
+      {
+        id: "editor",
+        label: "Open in VS Code",
+        icon: "📝",
+        command: path.join(
+          process.env.LOCALAPPDATA || "",
+          "Programs",
+          "Microsoft VS Code",
+          "Code.exe"
+        ),
+        args: ["{path}"],
+      },
+    ];
+  }
+
+  if (platform === "darwin") {
+    return [
+      {
+        id: "file-manager",
+        label: "Open in Finder",
+        icon: "📂",
+        command: "open",
+        args: ["{path}"],
+      },
+      {
+        id: "terminal",
+        label: "Open terminal here",
+        icon: "🖥️",
+        command: "open",
+        args: ["-a", "Terminal", "{path}"],
+      },
+      {
+        id: "editor",
+        label: "Open in VS Code",
+        icon: "📝",
+        command: "code",
+        args: ["{path}"],
+      },
+    ];
+  }
+
+  return [
+    {
+      id: "file-manager",
+      label: "Open in file manager",
+      icon: "📂",
+      command: "xdg-open",
+      args: ["{path}"],
+    },
+    {
+      id: "terminal",
+      label: "Open terminal here",
+      icon: "🖥️",
+      command: "x-terminal-emulator",
+      args: [],
+      cwd: "{path}",
+    },
+    {
+      id: "editor",
+      label: "Open in VS Code",
+      icon: "📝",
+      command: "code",
+      args: ["{path}"],
+    },
+  ];
+}
+
+function readConfigFile() {
+  try {
+    return JSON.parse(fs.readFileSync(CONFIG_PATH, "utf-8"));
+  } catch (error) {
+    if (error.code === "ENOENT") {
+      return {};
+    }
+    throw error;
+  }
+}
+
+function splitList(value, separator) {
+  return value
+    .split(separator)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function expandHome(value) {
+  return value.replace(/^~(?=$|[\\/])/, os.homedir());
+}
+
+/**
+ * Load the backend config. Without any configuration only the user's home
+ * folder is served, to the local Next.js dev server.
+ */
+function loadConfig(env = process.env) {
+  const file = readConfigFile();
+
+  const allowedRoots = env.ALLOWED_ROOTS
+    ? splitList(env.ALLOWED_ROOTS, path.delimiter)
+    : file.allowedRoots || [os.homedir()];
+  const allowedOrigins = env.ALLOWED_ORIGINS
+    ? splitList(env.ALLOWED_ORIGINS, ",")
+    : file.allowedOrigins || DEFAULT_ORIGINS;
+
+  return {
+    allowedRoots: allowedRoots.map((root) => path.resolve(expandHome(root))),
+    allowedOrigins,
+    openActions: file.openActions || getDefaultOpenActions(),
+    trashDir: file.trashDir
+      ? path.resolve(expandHome(file.trashDir))
+      : DEFAULT_TRASH_DIR,
+    layoutHistoryLimit: Number.isInteger(file.layoutHistoryLimit)
+      ? Math.max(file.layoutHistoryLimit, 0)
+      : DEFAULT_LAYOUT_HISTORY_LIMIT,
+    childPageSize:
+      Number.isInteger(file.childPageSize) && file.childPageSize > 0
+        ? file.childPageSize
+        : DEFAULT_CHILD_PAGE_SIZE,
+  };
+}
+
+module.exports = { loadConfig };
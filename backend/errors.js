@@ -0,0 +1,142 @@
+// Typed error responses
+// Every error the API returns has the shape { error, code } so the frontend
+// can tell a missing folder from a permission problem or a connector outage
+
+const ErrorCodes = {
+  BAD_REQUEST: "BAD_REQUEST",
+  NOT_FOUND: "NOT_FOUND",
+  PERMISSION_DENIED: "PERMISSION_DENIED",
+  NOT_A_DIRECTORY: "NOT_A_DIRECTORY",
+  PATH_NOT_ALLOWED: "PATH_NOT_ALLOWED",
+  ALREADY_EXISTS: "ALREADY_EXISTS",
+  NOT_EMPTY: "NOT_EMPTY",
+  NOTHING_TO_UNDO: "NOTHING_TO_UNDO",
+  LAYOUT_CONFLICT: "LAYOUT_CONFLICT",
+  CONNECTOR_UNAVAILABLE: "CONNECTOR_UNAVAILABLE",
+  INTERNAL: "INTERNAL",
+};
+
+class PathNotAllowedError extends Error {
+  constructor(requestedPath) {
+    super(`Path is outside the allowed roots: ${requestedPath}`);
+    this.name = "PathNotAllowedError";
+  }
+}
+
+class InvalidFolderNameError extends Error {
+  constructor(name) {
+    super(`Invalid folder name: ${name}`);
+    this.name = "InvalidFolderNameError";
+  }
+}
+
+class InvalidMoveError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = "InvalidMoveError";
+  }
+}
+
+class NothingToUndoError extends Error {
+  constructor() {
+    super("Nothing to undo");
+    this.name = "NothingToUndoError";
+  }
+}
+
+class LayoutNotFoundError extends Error {
+  constructor() {
+    super("Layout not found");
+    this.name = "LayoutNotFoundError";
+  }
+}
+
+class LayoutConflictError extends Error {
+  constructor() {
+    super("This layout was changed elsewhere since you loaded it");
+    this.name = "LayoutConflictError";
+  }
+}
+
+class InvalidLayoutFileError extends Error {
+  constructor(message) {
+    super(`Invalid layout file: ${message}`);
+    this.name = "InvalidLayoutFileError";
+  }
+}
+
+function sendError(res, status, code, message) {
+  return res.status(status).json({ error: message, code });
+}
+
+/**
+ * Map a file system error (ENOENT, EACCES, ...) on `targetPath` to a typed
+ * response, falling back to a 500 with `fallbackMessage`
+ */
+function sendFileSystemError(res, error, targetPath, fallbackMessage) {
+  if (error instanceof PathNotAllowedError) {
+    return sendError(res, 403, ErrorCodes.PATH_NOT_ALLOWED, error.message);
+  }
+  if (
+    error instanceof InvalidFolderNameError ||
+    error instanceof InvalidMoveError
+  ) {
+    return sendError(res, 400, ErrorCodes.BAD_REQUEST, error.message);
+  }
+  if (error instanceof NothingToUndoError) {
+    return sendError(res, 409, ErrorCodes.NOTHING_TO_UNDO, error.message);
+  }
+  switch (error && error.code) {
+    case "ENOENT":
+      return sendError(
+        res,
+        404,
+        ErrorCodes.NOT_FOUND,
+        `Folder not found: ${targetPath}`
+      );
+    case "EPERM":
+    case "EACCES":
+      return sendError(
+        res,
+        403,
+        ErrorCodes.PERMISSION_DENIED,
+        `Permission denied: ${targetPath}`
+      );
+    case "EEXIST":
+      return sendError(
+        res,
+        409,
+        ErrorCodes.ALREADY_EXISTS,
+        `Already exists: ${error.path || targetPath}`
+      );
+    case "ENOTEMPTY":
+      return sendError(
+        res,
+        409,
+        ErrorCodes.NOT_EMPTY,
+        `Folder is not empty: ${targetPath}`
+      );
+    case "ENOTDIR":
+      return sendError(
+        res,
+        400,
+        ErrorCodes.NOT_A_DIRECTORY,
+        `Not a folder: ${targetPath}`
+      );
+    default:
+      return sendError(res, 500, ErrorCodes.INTERNAL, fallbackMessage);
+  }
+}
+
+module.exports = {
+  ErrorCodes,
+  PathNotAllowedError,
+  InvalidFolderNameError,
+  InvalidMoveError,
+  NothingToUndoError,
+  LayoutNotFoundError,
+  LayoutConflictError,
+  InvalidLayoutFileError,
+  sendError,
+  sendFileSystemError,
+};
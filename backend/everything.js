@@ -0,0 +1,211 @@
+/* eslint-disable @typescript-eslint/no-require-imports */
+// Everything connector
+// Talks to the Everything HTTP server (voidtools) using its JSON query
+// protocol and maps results to the frontend's Everything* types
+
+const { createNodeId } = require("./node-id");
+
+const DEFAULT_LIMIT = 500;
+const MAX_LIMIT = 5000;
+const REQUEST_TIMEOUT_MS = 5000;
+
+// Milliseconds between 1601-01-01 (FILETIME epoch) and 1970-01-01
+const FILETIME_EPOCH_OFFSET_MS = 11644473600000;
+
+class EverythingUnavailableError extends Error {
+  constructor(message, cause) {
+    super(message);
+    this.name = "EverythingUnavailableError";
+    this.cause = cause;
+  }
+}
+
+/**
+ * Read connection settings from the environment
+ */
+function getEverythingConfig(env = process.env) {
+  return {
+    host: env.EVERYTHING_HOST || "127.0.0.1",
+    port: Number.parseInt(env.EVERYTHING_PORT, 10) || 80,
+    username: env.EVERYTHING_USERNAME || "",
+    password: env.EVERYTHING_PASSWORD || "",
+  };
+}
+
+function clampLimit(value) {
+  const limit = Number.parseInt(value, 10);
+  if (Number.isNaN(limit) || limit <= 0) {
+    return DEFAULT_LIMIT;
+  }
+  return Math.min(limit, MAX_LIMIT);
+}
+
+function clampOffset(value) {
+  const offset = Number.parseInt(value, 10);
+  return Number.isNaN(offset) || offset < 0 ? 0 : offset;
+}
+
+/**
+ * Everything reports dates as Windows FILETIME (100ns ticks since 1601)
+ */
+function fileTimeToIso(value) {
+  if (value === undefined || value === null || value === "") {
+    return null;
+  }
+  try {
+    const ms = Number(BigInt(value) / 10000n) - FILETIME_EPOCH_OFFSET_MS;
+    return new Date(ms).toISOString();
+  } catch {
+    return null;
+  }
+}
+
+function pathSeparatorFor(value) {
+  return value.includes("\\") || /^[a-zA-Z]:/.test(value) ? "\\" : "/";
+}
+
+function trimTrailingSeparator(value) {
+  if (value === "/" || /^[a-zA-Z]:\\?$/.test(value)) {
+    return value.replace(/\\$/, "");
+  }
+  return value.replace(/[\\/]+$/, "");
+}
+
+function joinEverythingPath(parent, name) {
+  if (!parent) {
+    return name;
+  }
+  if (parent.endsWith("\\") || parent.endsWith("/")) {
+    return `${parent}${name}`;
+  }
+  return `${parent}${pathSeparatorFor(parent)}${name}`;
+}
+
+function baseName(value) {
+  const trimmed = trimTrailingSeparator(value);
+  const parts = trimmed.split(/[\\/]/);
+  return parts[parts.length - 1] || trimmed;
+}
+
+/**
+ * Map one Everything result row to an EverythingEntry
+ */
+function toEverythingEntry(result) {
+  const fullPath = joinEverythingPath(result.path || "", result.name);
+  const isFolder = result.type === "folder" || result.type === "drive";
+  const size = Number.parseInt(result.size, 10);
+
+  return {
+    id: createNodeId("everything-sdk", fullPath),
+    name: result.name,
+    path: fullPath,
+    type: isFolder ? "folder" : "file",
+    size: Number.isNaN(size) ? null : size,
+    dateModified: fileTimeToIso(result.date_modified),
+    icon: isFolder ? "folder" : "file",
+    hasChildren: isFolder,
+  };
+}
+
+function quoteSearchValue(value) {
+  return `"${value.replace(/"/g, "")}"`;
+}
+
+/**
+ * Create a client bound to one Everything HTTP server
+ */
+function createEverythingClient(config = getEverythingConfig()) {
+  const baseUrl = `http://${config.host}:${config.port}/`;
+
+  async function query(search, { limit, offset = 0 } = {}) {
+    const params = new URLSearchParams({
+      search,
+      json: "1",
+      path_column: "1",
+      size_column: "1",
+      date_modified_column: "1",
+      sort: "name",
+      ascending: "1",
+      count: String(clampLimit(limit)),
+      offset: String(clampOffset(offset)),
+    });
+
+    const headers = {};
+    if (config.username) {
+      const token = Buffer.from(
+        `${config.username}:${config.password}`
+      ).toString("base64");
+      headers.Authorization = `Basic ${token}`;
+    }
+
+    let response;
+    try {
+      response = await fetch(`${baseUrl}?${params.toString()}`, {
+        headers,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+    } catch (error) {
+      throw new EverythingUnavailableError(
+        `Everything is not reachable at ${config.host}:${config.port}`,
+        error
+      );
+    }
+
+    if (!response.ok) {
+      throw new EverythingUnavailableError(
+        `Everything responded with ${response.status}`
+      );
+    }
+
+    const data = await response.json();
+    return {
+      totalResults: Number(data.totalResults) || 0,
+      results: Array.isArray(data.results) ? data.results : [],
+    };
+  }
+
+  return {
+    config,
+
+    /**
+     * List the folders directly inside `folderPath`.
+     * Without a path, lists the top-level entries Everything knows (drives).
+     */
+    async list(folderPath, options = {}) {
+      const parent = folderPath ? trimTrailingSeparator(folderPath) : "";
+      const search = parent
+        ? `folder: parent:${quoteSearchValue(parent)}`
+        : "root:";
+      const { totalResults, results } = await query(search, options);
+
+      return {
+        path: folderPath || "",
+        name: folderPath ? baseName(folderPath) : "Everything",
+        total: totalResults,
+        children: results.map(toEverythingEntry),
+      };
+    },
+
+    /**
+     * Run a raw Everything search query
+     */
+    async search(searchQuery, options = {}) {
+      const { totalResults, results } = await query(searchQuery, options);
+
+      return {
+        query: searchQuery,
+        totalResults,
+        results: results.map(toEverythingEntry),
+      };
+    },
+  };
+}
+
+module.exports = {
+  createEverythingClient,
+  getEverythingConfig,
+  EverythingUnavailableError,
+  fileTimeToIso,
+  joinEverythingPath,
+  trimTrailingSeparator,
+};
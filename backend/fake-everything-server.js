@@ -0,0 +1,198 @@
+/* eslint-disable @typescript-eslint/no-require-imports */
+// Fake Everything HTTP server
+// Answers the same JSON query protocol as voidtools Everything, backed by a
+// local directory, so the Everything connector can be developed on Linux/macOS
+//
+// Usage: EVERYTHING_FAKE_ROOT=~/projects EVERYTHING_PORT=8077 node backend/fake-everything-server.js
+
+const http = require("http");
+const path = require("path");
+const fs = require("fs");
+const fsPromises = fs.promises;
+const os = require("os");
+
+const PORT = Number.parseInt(process.env.EVERYTHING_PORT, 10) || 8077;
+const ROOT = path.resolve(process.env.EVERYTHING_FAKE_ROOT || os.homedir());
+const MAX_SCANNED_ENTRIES = 50000;
+const FILETIME_EPOCH_OFFSET_MS = 11644473600000;
+
+function toFileTime(date) {
+  return String((BigInt(date.getTime()) + BigInt(FILETIME_EPOCH_OFFSET_MS)) * 10000n);
+}
+
+/**
+ * Split a search string into terms, keeping quoted values together
+ */
+function tokenize(search) {
+  const tokens = [];
+  const pattern = /(\S+?:)?"([^"]*)"|\S+/g;
+  let match;
+  while ((match = pattern.exec(search)) !== null) {
+    if (match[2] !== undefined) {
+      tokens.push(`${match[1] || ""}${match[2]}`);
+    } else {
+      tokens.push(match[0]);
+    }
+  }
+  return tokens;
+}
+
+function wildcardToRegExp(term) {
+  const escaped = term.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(
+    `^${escaped.replace(/\*/g, ".*").replace(/\?/g, ".")}$`,
+    "i"
+  );
+}
+
+function parseQuery(search) {
+  const query = { root: false, parent: null, type: null, terms: [] };
+  for (const token of tokenize(search)) {
+    const lower = token.toLowerCase();
+    if (lower === "root:") {
+      query.root = true;
+    } else if (lower === "folder:") {
+      query.type = "folder";
+    } else if (lower === "file:") {
+      query.type = "file";
+    } else if (lower.startsWith("parent:")) {
+      query.parent = token.slice("parent:".length);
+    } else {
+      query.terms.push(
+        /[*?]/.test(token)
+          ? wildcardToRegExp(token)
+          : { test: (name) => name.toLowerCase().includes(lower) }
+      );
+    }
+  }
+  return query;
+}
+
+function isInsideRoot(target) {
+  const relative = path.relative(ROOT, target);
+  return !relative.startsWith("..") && !path.isAbsolute(relative);
+}
+
+async function describe(fullPath, dirent) {
+  let stats = null;
+  try {
+    stats = await fsPromises.stat(fullPath);
+  } catch {}
+  const isFolder = dirent ? dirent.isDirectory() : Boolean(stats?.isDirectory());
+  return {
+    type: isFolder ? "folder" : "file",
+    name: path.basename(fullPath),
+    path: path.dirname(fullPath),
+    size: stats && !isFolder ? String(stats.size) : "",
+    date_modified: stats ? toFileTime(stats.mtime) : "",
+  };
+}
+
+async function listParent(parentPath) {
+  const resolved = path.resolve(parentPath);
+  if (!isInsideRoot(resolved)) {
+    return [];
+  }
+  try {
+    const entries = await fsPromises.readdir(resolved, { withFileTypes: true });
+    return Promise.all(
+      entries.map((entry) => describe(path.join(resolved, entry.name), entry))
+    );
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Breadth-first walk of the fake root, capped so huge trees stay responsive
+ */
+async function scanRoot(matches) {
+  const results = [];
+  const queue = [ROOT];
+  let scanned = 0;
+
+  while (queue.length > 0 && scanned < MAX_SCANNED_ENTRIES) {
+    const current = queue.shift();
+    let entries;
+    try {
+      entries = await fsPromises.readdir(current, { withFileTypes: true });
+    } catch {
+      continue;
+    }
+    for (const entry of entries) {
+      scanned++;
+      const fullPath = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        queue.push(fullPath);
+      }
+      if (matches(entry)) {
+        results.push(await describe(fullPath, entry));
+      }
+    }
+  }
+
+  return results;
+}
+
+async function runQuery(search) {
+  const query = parseQuery(search);
+  let results;
+
+  if (query.root) {
+    results = [await describe(ROOT)];
+  } else if (query.parent !== null) {
+    results = await listParent(query.parent);
+  } else {
+    results = await scanRoot((entry) =>
+      query.terms.every((term) => term.test(entry.name))
+    );
+  }
+
+  return results.filter((result) => {
+    if (query.type && result.type !== query.type) {
+      return false;
+    }
+    return query.terms.every((term) => term.test(result.name));
+  });
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  const params = url.searchParams;
+
+  if (params.get("json") !== "1") {
+    res.writeHead(200, { "Content-Type": "text/plain" });
+    res.end(`Fake Everything server serving ${ROOT}. Add json=1 to query.`);
+    return;
+  }
+
+  try {
+    const results = await runQuery(params.get("search") || "");
+    results.sort((a, b) => a.name.localeCompare(b.name));
+    if (params.get("ascending") === "0") {
+      results.reverse();
+    }
+
+    const offset = Number.parseInt(params.get("offset"), 10) || 0;
+    const count = Number.parseInt(params.get("count"), 10) || results.length;
+    const page = results.slice(offset, offset + count).map((result) => {
+      const row = { type: result.type, name: result.name };
+      if (params.get("path_column") === "1") row.path = result.path;
+      if (params.get("size_column") === "1") row.size = result.size;
+      if (params.get("date_modified_column") === "1") {
+        row.date_modified = result.date_modified;
+      }
+      return row;
+    });
+
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ totalResults: results.length, results: page }));
+  } catch {
+    res.writeHead(500, { "Content-Type": "text/plain" });
+    res.end("Query failed");
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Fake Everything server on http://localhost:${PORT} serving ${ROOT}`);
+});
@@ -0,0 +1,257 @@
+/* eslint-disable @typescript-eslint/no-require-imports */
+// In-memory filename index for local-fs roots
+// Each root keeps a map of directory -> entries. Directory mtimes are
+// compared on refresh so only changed folders are read again. Searches are
+// answered from whatever is indexed so far while the first scan runs.
+
+const path = require("path");
+const fsPromises = require("fs").promises;
+
+const MAX_INDEXED_ENTRIES = 200000;
+const REFRESH_INTERVAL_MS = 10000;
+// Folders read at the same time while scanning, and entries stat'ed at once
+const SCAN_CONCURRENCY = 8;
+const STAT_BATCH_SIZE = 64;
+
+class FileIndex {
+  constructor(rootPath) {
+    this.rootPath = rootPath;
+    this.directories = new Map();
+    this.entryCount = 0;
+    this.lastRefresh = 0;
+    this.refreshing = null;
+    this.scanned = false; // Whether the first scan is done
+    this.ready = this.scanDirectory(rootPath).then(() => {
+      this.scanned = true;
+      this.lastRefresh = Date.now();
+      if (this.truncated) {
+        console.warn(
+          `Search index for ${rootPath} stopped at ${MAX_INDEXED_ENTRIES} entries; results may be incomplete`
+        );
+      }
+    });
+  }
+
+  get truncated() {
+    return this.entryCount >= MAX_INDEXED_ENTRIES;
+  }
+
+  /**
+   * Read one directory into the index. Returns its subfolders, or an empty
+   * list when it cannot be read.
+   */
+  async readDirectory(dirPath) {
+    let stats;
+    let dirents;
+    try {
+      stats = await fsPromises.stat(dirPath);
+      dirents = await fsPromises.readdir(dirPath, { withFileTypes: true });
+    } catch {
+      this.removeDirectory(dirPath);
+      return [];
+    }
+
+    const entries = [];
+    for (let start = 0; start < dirents.length; start += STAT_BATCH_SIZE) {
+      const batch = await Promise.all(
+        dirents.slice(start, start + STAT_BATCH_SIZE).map(async (dirent) => {
+          const fullPath = path.join(dirPath, dirent.name);
+          const isFolder = dirent.isDirectory();
+          let size = null;
+          let modifiedDate = null;
+          try {
+            const entryStats = await fsPromises.lstat(fullPath);
+            size = isFolder ? null : entryStats.size;
+            modifiedDate = entryStats.mtime.toISOString();
+          } catch {}
+
+          return {
+            name: dirent.name,
+            path: fullPath,
+            type: isFolder ? "folder" : "file",
+            size,
+            modifiedDate,
+          };
+        })
+      );
+      entries.push(...batch);
+    }
+
+    // Read again while the reads ran; another scan may have replaced it
+    const previous = this.directories.get(dirPath);
+    this.entryCount += entries.length - (previous ? previous.entries.length : 0);
+    this.directories.set(dirPath, { mtimeMs: stats.mtimeMs, entries });
+    return entries
+      .filter((entry) => entry.type === "folder")
+      .map((entry) => entry.path);
+  }
+
+  /**
+   * Read a directory into the index and descend into subfolders that are
+   * not indexed yet, several folders at a time
+   */
+  scanDirectory(dirPath) {
+    const queue = [dirPath];
+    let active = 0;
+
+    return new Promise((resolve) => {
+      const next = () => {
+        while (active < SCAN_CONCURRENCY && queue.length > 0 && !this.truncated) {
+          const current = queue.shift();
+          active++;
+          this.readDirectory(current)
+            .then((subdirectories) => {
+              subdirectories
+                .filter((subdirectory) => !this.directories.has(subdirectory))
+                .forEach((subdirectory) => queue.push(subdirectory));
+            })
+            .catch(() => {})
+            .finally(() => {
+              active--;
+              next();
+            });
+        }
+        if (active === 0) {
+          resolve();
+        }
+      };
+      next();
+    });
+  }
+
+  /**
+   * Drop a directory and everything indexed below it
+   */
+  removeDirectory(dirPath) {
+    const prefix = dirPath.endsWith(path.sep) ? dirPath : dirPath + path.sep;
+    for (const [key, record] of this.directories) {
+      if (key === dirPath || key.startsWith(prefix)) {
+        this.entryCount -= record.entries.length;
+        this.directories.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Re-read every directory whose mtime changed since it was indexed
+   */
+  async refresh() {
+    for (const [dirPath, record] of [...this.directories]) {
+      if (!this.directories.has(dirPath)) {
+        continue;
+      }
+
+      let stats;
+      try {
+        stats = await fsPromises.stat(dirPath);
+      } catch {
+        this.removeDirectory(dirPath);
+        continue;
+      }
+      if (stats.mtimeMs === record.mtimeMs) {
+        continue;
+      }
+
+      const previousFolders = record.entries
+        .filter((entry) => entry.type === "folder")
+        .map((entry) => entry.path);
+      await this.scanDirectory(dirPath);
+
+      const current = this.directories.get(dirPath);
+      const currentFolders = new Set(
+        (current ? current.entries : [])
+          .filter((entry) => entry.type === "folder")
+          .map((entry) => entry.path)
+      );
+      previousFolders
+        .filter((folderPath) => !currentFolders.has(folderPath))
+        .forEach((folderPath) => this.removeDirectory(folderPath));
+    }
+    this.lastRefresh = Date.now();
+  }
+
+  /**
+   * Start a background refresh when the index is older than the interval
+   */
+  refreshIfStale() {
+    if (
+      !this.scanned ||
+      this.refreshing ||
+      Date.now() - this.lastRefresh < REFRESH_INTERVAL_MS
+    ) {
+      return;
+    }
+    this.refreshing = this.refresh()
+      .catch(() => {})
+      .finally(() => {
+        this.refreshing = null;
+      });
+  }
+
+  search(matches, limit) {
+    const results = [];
+    let totalResults = 0;
+    for (const record of this.directories.values()) {
+      for (const entry of record.entries) {
+        if (matches(entry)) {
+          totalResults++;
+          if (results.length < limit) {
+            results.push({ ...entry, root: this.rootPath });
+          }
+        }
+      }
+    }
+    return { totalResults, results };
+  }
+}
+
+const indexes = new Map();
+
+/**
+ * Get (or start building) the index for a root folder
+ */
+function getFileIndex(rootPath) {
+  const resolved = path.resolve(rootPath);
+  let index = indexes.get(resolved);
+  if (!index) {
+    index = new FileIndex(resolved);
+    indexes.set(resolved, index);
+  }
+  return index;
+}
+
+function listIndexedRoots() {
+  return [...indexes.keys()];
+}
+
+function escapeRegExp(value) {
+  return value.replace(/[.+^${}()|\\]/g, "\\$&");
+}
+
+/**
+ * Build a case-insensitive name matcher for substring, prefix or glob queries
+ */
+function createMatcher(query, mode = "substring") {
+  const lower = query.toLowerCase();
+  if (mode === "prefix") {
+    return (name) => name.toLowerCase().startsWith(lower);
+  }
+  if (mode === "glob") {
+    const source = escapeRegExp(query)
+      .replace(/\*/g, ".*")
+      .replace(/\?/g, ".");
+    try {
+      const pattern = new RegExp(`^${source}$`, "i");
+      return (name) => pattern.test(name);
+    } catch {
+      // Unbalanced [ ] — fall back to a plain substring match
+    }
+  }
+  return (name) => name.toLowerCase().includes(lower);
+}
+
+module.exports = {
+  getFileIndex,
+  listIndexedRoots,
+  createMatcher,
+};
@@ -0,0 +1,326 @@
+/* eslint-disable @typescript-eslint/no-require-imports */
+// Folder operations with an undo journal
+// Creates, renames, moves and trashes folders on disk. Every operation is recorded
+// in a journal file so the most recent ones can be undone, also after a
+// restart. Trashed folders are moved into the trash directory, never deleted.
+
+const path = require("path");
+const fs = require("fs");
+const fsPromises = fs.promises;
+const { v4: uuidv4 } = require("uuid");
+const {
+  InvalidFolderNameError,
+  InvalidMoveError,
+  NothingToUndoError,
+} = require("./errors");
+
+const MAX_JOURNAL_ENTRIES = 100;
+// Characters Windows does not allow in file names; rejected everywhere so
+// layouts stay portable
+const INVALID_NAME_PATTERN = /[<>:"/\\|?*\x00-\x1f]/;
+
+/**
+ * Check a single path segment typed by the user
+ */
+function validateFolderName(name) {
+  const trimmed = typeof name === "string" ? name.trim() : "";
+  if (
+    !trimmed ||
+    trimmed === "." ||
+    trimmed === ".." ||
+    trimmed !== name ||
+    INVALID_NAME_PATTERN.test(name)
+  ) {
+    throw new InvalidFolderNameError(name);
+  }
+  return name;
+}
+
+async function exists(targetPath) {
+  try {
+    await fsPromises.lstat(targetPath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// True when both paths name the same entry, e.g. "Docs" and "docs" on a
+// case-insensitive file system
+async function isSameEntry(firstPath, secondPath) {
+  try {
+    const [first, second] = await Promise.all([
+      fsPromises.lstat(firstPath),
+      fsPromises.lstat(secondPath),
+    ]);
+    return first.dev === second.dev && first.ino === second.ino;
+  } catch {
+    return false;
+  }
+}
+
+function alreadyExistsError(targetPath) {
+  const error = new Error(`Already exists: ${targetPath}`);
+  error.code = "EEXIST";
+  error.path = targetPath;
+  return error;
+}
+
+/**
+ * Total size of the files below a folder, for progress reporting
+ */
+async function measureFolder(folderPath) {
+  let bytes = 0;
+  const entries = await fsPromises.readdir(folderPath, { withFileTypes: true });
+  for (const entry of entries) {
+    const entryPath = path.join(folderPath, entry.name);
+    if (entry.isDirectory()) {
+      bytes += await measureFolder(entryPath);
+    } else if (entry.isFile()) {
+      bytes += (await fsPromises.lstat(entryPath)).size;
+    }
+  }
+  return bytes;
+}
+
+/**
+ * Copy a folder file by file, calling `onCopied(bytes)` after each file
+ */
+async function copyFolder(fromPath, toPath, onCopied) {
+  await fsPromises.mkdir(toPath);
+  const entries = await fsPromises.readdir(fromPath, { withFileTypes: true });
+  for (const entry of entries) {
+    const source = path.join(fromPath, entry.name);
+    const target = path.join(toPath, entry.name);
+    if (entry.isDirectory()) {
+      await copyFolder(source, target, onCopied);
+    } else if (entry.isSymbolicLink()) {
+      await fsPromises.symlink(await fsPromises.readlink(source), target);
+    } else {
+      const stats = await fsPromises.lstat(source);
+      await fsPromises.copyFile(source, target, fs.constants.COPYFILE_EXCL);
+      await fsPromises.utimes(target, stats.atime, stats.mtime);
+      onCopied(stats.size);
+    }
+  }
+}
+
+/**
+ * Move a folder, copying it when source and target are on different devices.
+ * `onProgress({ copiedBytes, totalBytes })` is only called while copying.
+ */
+async function moveEntry(fromPath, toPath, onProgress = () => {}) {
+  try {
+    await fsPromises.rename(fromPath, toPath);
+  } catch (error) {
+    if (error.code !== "EXDEV") {
+      throw error;
+    }
+    const totalBytes = await measureFolder(fromPath);
+    let copiedBytes = 0;
+    onProgress({ copiedBytes, totalBytes });
+    try {
+      await copyFolder(fromPath, toPath, (bytes) => {
+        copiedBytes += bytes;
+        onProgress({ copiedBytes, totalBytes });
+      });
+    } catch (copyError) {
+      // Leave the source untouched and drop the partial copy
+      await fsPromises.rm(toPath, { recursive: true, force: true });
+      throw copyError;
+    }
+    await fsPromises.rm(fromPath, { recursive: true });
+  }
+}
+
+function isInsideFolder(folderPath, targetPath) {
+  const relative = path.relative(folderPath, targetPath);
+  return (
+    relative === "" ||
+    (!relative.startsWith("..") && !path.isAbsolute(relative))
+  );
+}
+
+/**
+ * Create the folder operations for a journal file and trash directory
+ */
+function createFileOperations({ journalPath, trashDir }) {
+  let queue = Promise.resolve();
+
+  // Operations touch the journal one at a time
+  function enqueue(task) {
+    const run = queue.then(task);
+    queue = run.catch(() => {});
+    return run;
+  }
+
+  async function readJournal() {
+    try {
+      return JSON.parse(await fsPromises.readFile(journalPath, "utf-8"));
+    } catch (error) {
+      if (error.code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  async function writeJournal(entries) {
+    await fsPromises.writeFile(
+      journalPath,
+      JSON.stringify(entries.slice(-MAX_JOURNAL_ENTRIES), null, 2)
+    );
+  }
+
+  async function record(entry) {
+    const operation = {
+      id: uuidv4(),
+      createdAt: new Date().toISOString(),
+      ...entry,
+    };
+    const entries = await readJournal();
+    await writeJournal([...entries, operation]);
+    return operation;
+  }
+
+  /**
+   * Create `name` inside `parentPath`
+   */
+  function createFolder(parentPath, name) {
+    return enqueue(async () => {
+      const folderPath = path.join(parentPath, validateFolderName(name));
+      await fsPromises.mkdir(folderPath);
+      return record({ type: "create", path: folderPath });
+    });
+  }
+
+  /**
+   * Rename a folder in place. Never replaces an existing folder.
+   */
+  function renameFolder(folderPath, name) {
+    return enqueue(async () => {
+      const targetPath = path.join(
+        path.dirname(folderPath),
+        validateFolderName(name)
+      );
+      if (targetPath === folderPath) {
+        throw alreadyExistsError(targetPath);
+      }
+      // rename() silently replaces empty folders on POSIX
+      if (
+        (await exists(targetPath)) &&
+        !(await isSameEntry(targetPath, folderPath))
+      ) {
+        throw alreadyExistsError(targetPath);
+      }
+      await fsPromises.rename(folderPath, targetPath);
+      return record({ type: "rename", from: folderPath, path: targetPath });
+    });
+  }
+
+  /**
+   * Move a folder into `targetParentPath`. Refuses to replace an existing
+   * folder or to move a folder into itself.
+   */
+  function moveFolder(folderPath, targetParentPath, onProgress) {
+    return enqueue(async () => {
+      if (isInsideFolder(folderPath, targetParentPath)) {
+        throw new InvalidMoveError(
+          `Cannot move ${folderPath} into itself or one of its subfolders`
+        );
+      }
+      if (path.dirname(folderPath) === targetParentPath) {
+        throw new InvalidMoveError(
+          `${folderPath} is already in ${targetParentPath}`
+        );
+      }
+      const targetPath = path.join(targetParentPath, path.basename(folderPath));
+      if (await exists(targetPath)) {
+        throw alreadyExistsError(targetPath);
+      }
+      await moveEntry(folderPath, targetPath, onProgress);
+      return record({ type: "move", from: folderPath, path: targetPath });
+    });
+  }
+
+  /**
+   * Move a folder into the trash directory
+   */
+  function trashFolder(folderPath) {
+    return enqueue(async () => {
+      const id = uuidv4();
+      const trashPath = path.join(trashDir, id, path.basename(folderPath));
+      await fsPromises.mkdir(path.dirname(trashPath), { recursive: true });
+      try {
+        await moveEntry(folderPath, trashPath);
+      } catch (error) {
+        await fsPromises.rm(path.dirname(trashPath), {
+          recursive: true,
+          force: true,
+        });
+        throw error;
+      }
+      return record({ id, type: "trash", path: folderPath, trashPath });
+    });
+  }
+
+  async function listOperations() {
+    return readJournal();
+  }
+
+  async function getLastOperation() {
+    const entries = await readJournal();
+    return entries[entries.length - 1] || null;
+  }
+
+  /**
+   * Reverse the most recent operation and drop it from the journal.
+   * Refuses instead of overwriting anything created since.
+   */
+  function undoLastOperation() {
+    return enqueue(async () => {
+      const entries = await readJournal();
+      const operation = entries[entries.length - 1];
+      if (!operation) {
+        throw new NothingToUndoError();
+      }
+
+      if (operation.type === "create") {
+        // Only an empty folder is removed; anything put in it since stays
+        await fsPromises.rmdir(operation.path);
+      } else if (operation.type === "rename" || operation.type === "move") {
+        if (
+          (await exists(operation.from)) &&
+          !(await isSameEntry(operation.from, operation.path))
+        ) {
+          throw alreadyExistsError(operation.from);
+        }
+        await moveEntry(operation.path, operation.from);
+      } else if (operation.type === "trash") {
+        if (await exists(operation.path)) {
+          throw alreadyExistsError(operation.path);
+        }
+        await moveEntry(operation.trashPath, operation.path);
+        await fsPromises.rm(path.dirname(operation.trashPath), {
+          recursive: true,
+          force: true,
+        });
+      }
+
+      await writeJournal(entries.slice(0, -1));
+      return operation;
+    });
+  }
+
+  return {
+    createFolder,
+    renameFolder,
+    moveFolder,
+    trashFolder,
+    listOperations,
+    getLastOperation,
+    undoLastOperation,
+  };
+}
+
+module.exports = { createFileOperations };
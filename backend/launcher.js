@@ -0,0 +1,47 @@
+/* eslint-disable @typescript-eslint/no-require-imports */
+// Open actions
+// Launches a configured program for a folder. Arguments are passed straight
+// to the program (never through a shell), so folder names cannot inject
+// commands.
+
+const { spawn } = require("child_process");
+
+const PATH_PLACEHOLDER = "{path}";
+
+function substitutePath(value, folderPath) {
+  return value.split(PATH_PLACEHOLDER).join(folderPath);
+}
+
+/**
+ * Start `action` for `folderPath`. Resolves once the program has started,
+ * rejects when it cannot be launched (e.g. the command is not installed).
+ */
+function runOpenAction(action, folderPath) {
+  return new Promise((resolve, reject) => {
+    const child = spawn(
+      action.command,
+      (action.args || []).map((arg) => substitutePath(arg, folderPath)),
+      {
+        cwd: action.cwd ? substitutePath(action.cwd, folderPath) : undefined,
+        detached: true,
+        stdio: "ignore",
+        shell: false,
+      }
+    );
+
+    child.once("error", reject);
+    child.once("spawn", () => {
+      child.unref();
+      resolve();
+    });
+  });
+}
+
+/**
+ * Public description of an action, without the command line
+ */
+function describeOpenAction(action) {
+  return { id: action.id, label: action.label, icon: action.icon || null };
+}
+
+module.exports = { runOpenAction, describeOpenAction };
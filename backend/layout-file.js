@@ -0,0 +1,171 @@
+/* eslint-disable @typescript-eslint/no-require-imports */
+// Portable layout files
+// A layout file wraps a saved layout with a format name and version so it can
+// be handed to someone else. Importing checks the file, can move every folder
+// path from one prefix to another (e.g. C:\Users\alice -> /home/bob) and
+// derives the node IDs again from the resulting paths.
+
+const { createNodeId } = require("./node-id");
+const { InvalidLayoutFileError } = require("./errors");
+
+const LAYOUT_FILE_FORMAT = "folder-explorer-layout";
+const LAYOUT_FILE_VERSION = 1;
+// "auto" is what the left-to-right tree was called before the other layouts
+const LAYOUT_MODES = ["freeflow", "tree", "topDown", "radial", "compact", "force", "auto"];
+
+function isObject(value) {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isPoint(value) {
+  return (
+    isObject(value) &&
+    Number.isFinite(value.x) &&
+    Number.isFinite(value.y)
+  );
+}
+
+function checkNode(node, where) {
+  if (
+    !isObject(node) ||
+    typeof node.path !== "string" ||
+    !node.path ||
+    typeof node.name !== "string" ||
+    !isPoint(node.position)
+  ) {
+    throw new InvalidLayoutFileError(`${where} is not a valid folder node`);
+  }
+  if (node.children !== undefined && !Array.isArray(node.children)) {
+    throw new InvalidLayoutFileError(`${where}.children must be a list`);
+  }
+  (node.children || []).forEach((child, index) =>
+    checkNode(child, `${where}.children[${index}]`)
+  );
+}
+
+function checkArea(area, where) {
+  if (
+    !isObject(area) ||
+    typeof area.id !== "string" ||
+    typeof area.name !== "string" ||
+    !Array.isArray(area.nodes) ||
+    !area.nodes.every((id) => typeof id === "string") ||
+    !isPoint(area.position) ||
+    !isObject(area.size) ||
+    !Number.isFinite(area.size.width) ||
+    !Number.isFinite(area.size.height)
+  ) {
+    throw new InvalidLayoutFileError(`${where} is not a valid area`);
+  }
+}
+
+/**
+ * Check a parsed layout file and return the layout inside it
+ */
+function readLayoutFile(file) {
+  if (!isObject(file) || file.format !== LAYOUT_FILE_FORMAT) {
+    throw new InvalidLayoutFileError("Not a layout file");
+  }
+  if (!Number.isInteger(file.version) || file.version > LAYOUT_FILE_VERSION) {
+    throw new InvalidLayoutFileError(
+      `Unsupported layout file version: ${file.version}`
+    );
+  }
+
+  const { layout } = file;
+  if (!isObject(layout) || typeof layout.name !== "string" || !layout.name) {
+    throw new InvalidLayoutFileError("The layout has no name");
+  }
+  if (!LAYOUT_MODES.includes(layout.mode)) {
+    throw new InvalidLayoutFileError(`Unknown layout mode: ${layout.mode}`);
+  }
+  if (!Array.isArray(layout.nodes)) {
+    throw new InvalidLayoutFileError("The layout has no folders");
+  }
+  layout.nodes.forEach((node, index) => checkNode(node, `nodes[${index}]`));
+  const areas = layout.areas || [];
+  if (!Array.isArray(areas)) {
+    throw new InvalidLayoutFileError("areas must be a list");
+  }
+  areas.forEach((area, index) => checkArea(area, `areas[${index}]`));
+  if (
+    layout.viewport !== undefined &&
+    !(isPoint(layout.viewport) && Number.isFinite(layout.viewport.zoom))
+  ) {
+    throw new InvalidLayoutFileError("viewport must have x, y and zoom");
+  }
+
+  return { ...layout, areas };
+}
+
+/**
+ * Replace the `from` prefix of a path with `to`, using the separator style
+ * of `to`. Paths outside `from` are returned unchanged.
+ */
+function rewritePath(value, from, to) {
+  // Windows paths (drive letters, UNC shares) compare case-insensitively
+  const isWindowsPath = /^([a-zA-Z]:|\\\\)/.test(from);
+  const fold = (text) => (isWindowsPath ? text.toLowerCase() : text);
+  const slashed = value.replace(/\\/g, "/");
+  const prefix = from.replace(/\\/g, "/").replace(/\/+$/, "");
+  if (
+    fold(slashed) !== fold(prefix) &&
+    !fold(slashed).startsWith(`${fold(prefix)}/`)
+  ) {
+    return value;
+  }
+  const rest = slashed.slice(prefix.length).replace(/^\/+/, "");
+
+  const separator = to.includes("\\") && !to.includes("/") ? "\\" : "/";
+  const base = to.replace(/[\\/]+$/, "");
+  return rest
+    ? `${base}${separator}${rest.split("/").join(separator)}`
+    : to;
+}
+
+/**
+ * Rewrite folder paths (when `rewrite` is given) and derive node IDs from the
+ * resulting paths, keeping area memberships pointed at the same folders
+ */
+function rekeyLayout(layout, rewrite) {
+  const idMap = new Map();
+  const knownIds = new Set();
+
+  const rekeyNode = (node) => {
+    const connector = node.connector || "local-fs";
+    const nodePath = rewrite
+      ? rewritePath(node.path, rewrite.from, rewrite.to)
+      : node.path;
+    const id = createNodeId(connector, nodePath);
+    knownIds.add(id);
+    if (typeof node.id === "string") {
+      idMap.set(node.id, id);
+    }
+    return {
+      ...node,
+      id,
+      path: nodePath,
+      connector,
+      children: (node.children || []).map(rekeyNode),
+    };
+  };
+
+  const nodes = layout.nodes.map(rekeyNode);
+  // Area IDs are the IDs of their root folders, so they move with them
+  const areas = layout.areas.map((area) => ({
+    ...area,
+    id: idMap.get(area.id) || area.id,
+    nodes: area.nodes
+      .map((id) => idMap.get(id) || id)
+      .filter((id) => knownIds.has(id)),
+  }));
+  return { ...layout, nodes, areas };
+}
+
+module.exports = {
+  LAYOUT_FILE_FORMAT,
+  LAYOUT_FILE_VERSION,
+  readLayoutFile,
+  rewritePath,
+  rekeyLayout,
+};
@@ -0,0 +1,113 @@
+/* eslint-disable @typescript-eslint/no-require-imports */
+// Revision history for saved layouts
+// Every save of a layout keeps a copy of its nodes, areas and mode in a
+// separate history file, so an earlier arrangement can be looked at and
+// restored. Only the newest `retention` revisions per layout are kept.
+
+const fs = require("fs");
+const fsPromises = fs.promises;
+const { v4: uuidv4 } = require("uuid");
+
+/**
+ * Create the layout history for a history file
+ */
+function createLayoutHistory({ historyPath, retention }) {
+  let queue = Promise.resolve();
+
+  // Writes to the history file happen one at a time
+  function enqueue(task) {
+    const run = queue.then(task);
+    queue = run.catch(() => {});
+    return run;
+  }
+
+  // { [layoutId]: revisions, oldest first }
+  async function readHistory() {
+    try {
+      return JSON.parse(await fsPromises.readFile(historyPath, "utf-8"));
+    } catch (error) {
+      if (error.code === "ENOENT") {
+        return {};
+      }
+      throw error;
+    }
+  }
+
+  async function writeHistory(history) {
+    await fsPromises.writeFile(historyPath, JSON.stringify(history, null, 2));
+  }
+
+  // A revision without its nodes and areas, for listing
+  function summarize(revision) {
+    const { nodes, areas, ...summary } = revision;
+    return {
+      ...summary,
+      nodeCount: countNodes(nodes),
+      areaCount: areas.length,
+    };
+  }
+
+  /**
+   * Keep the current state of `layout` as a new revision
+   */
+  function addRevision(layout, message) {
+    return enqueue(async () => {
+      const revision = {
+        id: uuidv4(),
+        layoutId: layout.id,
+        name: layout.name,
+        mode: layout.mode,
+        nodes: layout.nodes,
+        areas: layout.areas || [],
+        message: message || null,
+        createdAt: layout.updatedAt,
+      };
+      if (retention <= 0) {
+        return revision;
+      }
+      const history = await readHistory();
+      const revisions = [...(history[layout.id] || []), revision];
+      history[layout.id] = revisions.slice(-retention);
+      await writeHistory(history);
+      return revision;
+    });
+  }
+
+  /**
+   * Revisions of a layout without their contents, newest first
+   */
+  async function listRevisions(layoutId) {
+    const history = await readHistory();
+    return (history[layoutId] || []).map(summarize).reverse();
+  }
+
+  async function getRevision(layoutId, revisionId) {
+    const history = await readHistory();
+    return (
+      (history[layoutId] || []).find((revision) => revision.id === revisionId) ||
+      null
+    );
+  }
+
+  function removeHistory(layoutId) {
+    return enqueue(async () => {
+      const history = await readHistory();
+      if (!history[layoutId]) {
+        return;
+      }
+      delete history[layoutId];
+      await writeHistory(history);
+    });
+  }
+
+  return { addRevision, listRevisions, getRevision, removeHistory };
+}
+
+function countNodes(nodes) {
+  return (nodes || []).reduce(
+    (count, node) => count + 1 + countNodes(node.children),
+    0
+  );
+}
+
+module.exports = { createLayoutHistory };
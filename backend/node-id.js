@@ -0,0 +1,26 @@
+// Stable node IDs
+// Derived from the connector and the normalized folder path so the same
+// folder gets the same ID on every scan. Mirrors createNodeId in src/lib/utils.ts
+
+/**
+ * Forward slashes, no trailing separator, lower case for Windows paths
+ */
+function normalizeNodePath(value) {
+  let normalized = value.replace(/\\/g, "/").replace(/([^/])\/{2,}/g, "$1/");
+  if (/^[a-zA-Z]:$/.test(normalized)) {
+    normalized += "/";
+  }
+  if (normalized.length > 1 && !/^[a-zA-Z]:\/$/.test(normalized)) {
+    normalized = normalized.replace(/\/+$/, "");
+  }
+  if (/^[a-zA-Z]:/.test(normalized) || normalized.startsWith("//")) {
+    normalized = normalized.toLowerCase();
+  }
+  return normalized;
+}
+
+function createNodeId(connector, nodePath) {
+  return `${connector}:${normalizeNodePath(nodePath)}`;
+}
+
+module.exports = { createNodeId, normalizeNodePath };
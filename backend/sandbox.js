@@ -0,0 +1,79 @@
+/* eslint-disable @typescript-eslint/no-require-imports */
+// Path sandbox
+// Every path coming from a request is resolved (symlinks included) and must
+// end up inside one of the configured allowed roots. Paths are handed back as
+// requested, so folders below a symlink keep their place in the tree.
+
+const path = require("path");
+const fs = require("fs");
+const fsPromises = fs.promises;
+const { PathNotAllowedError } = require("./errors");
+
+function isInsideRoot(root, target) {
+  const relative = path.relative(root, target);
+  return (
+    relative === "" ||
+    (!relative.startsWith("..") && !path.isAbsolute(relative))
+  );
+}
+
+/**
+ * Create a sandbox for a list of allowed root folders
+ */
+function createSandbox(allowedRoots) {
+  const roots = allowedRoots.map((root) => path.resolve(root));
+  // Match against both the configured and the real location of each root,
+  // so a root that is itself a symlink still accepts its own paths
+  const matchRoots = [
+    ...new Set(
+      roots.flatMap((root) => {
+        try {
+          return [root, fs.realpathSync(root)];
+        } catch {
+          return [root];
+        }
+      })
+    ),
+  ];
+
+  /**
+   * Check a path without touching the disk. Used for paths that are not on
+   * the local file system's terms, like Everything results.
+   */
+  function isAllowed(targetPath) {
+    const resolved = path.resolve(targetPath);
+    return matchRoots.some((root) => isInsideRoot(root, resolved));
+  }
+
+  /**
+   * Make sure a requested path really is inside an allowed root, symlinks
+   * followed, and return it normalized. Rejects with ENOENT when the path
+   * does not exist and with PathNotAllowedError when it is outside every root.
+   *
+   * The requested path is kept when it lies inside a root itself, so the
+   * children of a symlinked folder are listed under the folder and not under
+   * the link's target. A path that only reaches a root through a symlink
+   * elsewhere is returned as its real location.
+   */
+  async function resolve(requestedPath) {
+    const normalized = path.resolve(requestedPath);
+    const real = await fsPromises.realpath(normalized);
+    if (!matchRoots.some((root) => isInsideRoot(root, real))) {
+      throw new PathNotAllowedError(requestedPath);
+    }
+    return matchRoots.some((root) => isInsideRoot(root, normalized))
+      ? normalized
+      : real;
+  }
+
+  /**
+   * The allowed root a resolved path belongs to, or null
+   */
+  function findRoot(resolvedPath) {
+    return matchRoots.find((root) => isInsideRoot(root, resolvedPath)) || null;
+  }
+
+  return { roots, isAllowed, resolve, findRoot };
+}
+
+module.exports = { createSandbox };
@@ -1,6 +1,7 @@
 /* eslint-disable @typescript-eslint/no-require-imports */
 // Local Node.js backend server
-// Connects to Everything SDK (Windows) to read directory structure
+// Reads directory structure from the local file system, or from Everything
+// (Windows) through its HTTP server
 
 const express = require("express");
 const cors = require("cors");
@@ -9,10 +10,59 @@ const fs = require("fs");
 const fsPromises = fs.promises;
 const os = require("os");
 const { v4: uuidv4 } = require("uuid");
+const {
+  createEverythingClient,
+  EverythingUnavailableError,
+} = require("./everything");
+const {
+  getFileIndex,
+  listIndexedRoots,
+  createMatcher,
+} = require("./file-index");
+const { watchRoot } = require("./watcher");
+const { createNodeId } = require("./node-id");
+const {
+  ErrorCodes,
+  LayoutNotFoundError,
+  LayoutConflictError,
+  InvalidLayoutFileError,
+  sendError,
+  sendFileSystemError,
+} = require("./errors");
+const { loadConfig } = require("./config");
+const { createSandbox } = require("./sandbox");
+const { runOpenAction, describeOpenAction } = require("./launcher");
+const { createFileOperations } = require("./file-operations");
+const { createLayoutHistory } = require("./layout-history");
+const { readLayoutFile, rekeyLayout } = require("./layout-file");
 
 const app = express();
 const PORT = process.env.PORT || 3001;
+const MAX_DIRECTORY_DEPTH = 5;
+// Minimum time between progress events for one long-running move
+const PROGRESS_INTERVAL_MS = 250;
+// Demo mode serves the built-in mock folder tree; enable with --demo or DEMO_MODE=1
+const DEMO_MODE = process.env.DEMO_MODE === "1" || process.argv.includes("--demo");
 const layoutStorePath = path.join(__dirname, "layouts.json");
+// Autosaves of a canvas that has no saved layout go to this layout, which is
+// kept out of the layout list
+const SCRATCH_LAYOUT_ID = "scratch";
+const config = loadConfig();
+const sandbox = createSandbox(config.allowedRoots);
+const fileOperations = createFileOperations({
+  journalPath: path.join(__dirname, "operations.json"),
+  trashDir: config.trashDir,
+});
+const layoutHistory = createLayoutHistory({
+  historyPath: path.join(__dirname, "layout-history.json"),
+  retention: config.layoutHistoryLimit,
+});
+const everything = createEverythingClient();
+// Watched root -> { watcher, clients }. `clients` holds the /events client
+// IDs that asked for the root ("" for callers without one); the watcher is
+// closed once none is left.
+const rootWatchers = new Map();
+const eventClients = new Set();
 async function readLayouts() {
   try {
     const data = await fsPromises.readFile(layoutStorePath, "utf-8");
@@ -29,40 +79,71 @@ async function writeLayouts(layouts) {
   await fsPromises.writeFile(layoutStorePath, JSON.stringify(layouts, null, 2));
 }
 
+let layoutWriteQueue = Promise.resolve();
+
+/**
+ * Read, change and write the layout store as one step, so concurrent
+ * requests cannot interleave. `mutate(layouts)` returns the new list and a
+ * result, or throws to leave the store untouched.
+ */
+function updateLayouts(mutate) {
+  const run = layoutWriteQueue.then(async () => {
+    const { layouts, result } = await mutate(await readLayouts());
+    await writeLayouts(layouts);
+    return result;
+  });
+  layoutWriteQueue = run.catch(() => {});
+  return run;
+}
+
+// A layout's version is its updatedAt timestamp, sent as a strong ETag
+function layoutEtag(layout) {
+  return `"${layout.updatedAt}"`;
+}
+
+// Later than `previous`, even for two updates within the same millisecond
+function nextUpdatedAt(previous) {
+  const now = Date.now();
+  const last = previous ? Date.parse(previous) : 0;
+  return new Date(Math.max(now, last + 1)).toISOString();
+}
+
 // Middleware
 app.use(
   cors({
-    origin: "*",
-    methods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
-    allowedHeaders: ["Content-Type", "Authorization"],
+    origin: config.allowedOrigins.includes("*") ? "*" : config.allowedOrigins,
+    methods: ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"],
+    allowedHeaders: ["Content-Type", "Authorization", "If-Match"],
+    exposedHeaders: ["ETag"],
     credentials: false,
   })
 );
-app.use(express.json());
+// Layouts carry whole folder trees
+app.use(express.json({ limit: "20mb" }));
 
 const mockDirectoryStructure = {
-  id: "root",
+  id: createNodeId("local-fs", "C:\\"),
   name: "C:\\",
   path: "C:\\",
   children: [
     {
-      id: "users",
+      id: createNodeId("local-fs", "C:\\Users"),
       name: "Users",
       path: "C:\\Users",
       children: [
         {
-          id: "user1",
+          id: createNodeId("local-fs", "C:\\Users\\User1"),
           name: "User1",
           path: "C:\\Users\\User1",
           children: [
             {
-              id: "documents",
+              id: createNodeId("local-fs", "C:\\Users\\User1\\Documents"),
               name: "Documents",
               path: "C:\\Users\\User1\\Documents",
               children: [],
             },
             {
-              id: "desktop",
+              id: createNodeId("local-fs", "C:\\Users\\User1\\Desktop"),
               name: "Desktop",
               path: "C:\\Users\\User1\\Desktop",
               children: [],
@@ -72,7 +153,7 @@ const mockDirectoryStructure = {
       ],
     },
     {
-      id: "programs",
+      id: createNodeId("local-fs", "C:\\Program Files"),
       name: "Program Files",
       path: "C:\\Program Files",
       children: [],
@@ -81,66 +162,131 @@ const mockDirectoryStructure = {
 };
 
 /**
- * Recursively read directory structure
+ * Check whether a directory contains at least one subdirectory.
+ * Stops at the first match so huge folders stay cheap to probe.
+ */
+async function hasSubdirectories(dirPath) {
+  let dir;
+  try {
+    dir = await fsPromises.opendir(dirPath);
+    for await (const entry of dir) {
+      if (entry.isDirectory()) {
+        return true;
+      }
+    }
+    return false;
+  } catch {
+    return false;
+  } finally {
+    if (dir) {
+      try {
+        await dir.close();
+      } catch {}
+    }
+  }
+}
+
+/**
+ * Read directory structure down to `depth` levels.
+ * Folders at the last level are returned with empty `children` and a
+ * `hasChildren` flag so the frontend can load them on demand.
+ * Subfolders are sorted by name; `offset` and `limit` pick one page of the
+ * top level, and `totalChildren` says how many there are in all.
  */
-async function readDirectory(dirPath, maxDepth = 5, currentDepth = 0) {
-  if (currentDepth >= maxDepth) {
+async function readDirectory(dirPath, depth = 1, { offset = 0, limit } = {}) {
+  const stats = await fsPromises.stat(dirPath);
+  if (!stats.isDirectory()) {
     return null;
   }
 
-  try {
-    const stats = await fsPromises.stat(dirPath);
-    if (!stats.isDirectory()) {
-      return null;
-    }
+  const children = [];
+  let hasChildren = false;
+  let totalChildren;
 
+  if (depth > 0) {
     const entries = await fsPromises.readdir(dirPath, { withFileTypes: true });
-    const children = [];
+    const subfolders = entries
+      .filter((entry) => entry.isDirectory())
+      .map((entry) => entry.name)
+      .sort((a, b) => a.localeCompare(b));
+    hasChildren = subfolders.length > 0;
+    totalChildren = subfolders.length;
 
-    for (const entry of entries) {
-      if (entry.isDirectory()) {
-        const childPath = path.join(dirPath, entry.name);
-        try {
-          const child = await readDirectory(
-            childPath,
-            maxDepth,
-            currentDepth + 1
-          );
-          if (child) {
-            children.push(child);
-          }
-        } catch (childError) {
-          if (childError.code !== "EPERM" && childError.code !== "EACCES") {
-            throw childError;
-          }
+    const page = subfolders.slice(
+      offset,
+      limit === undefined ? undefined : offset + limit
+    );
+    for (const name of page) {
+      const childPath = path.join(dirPath, name);
+      try {
+        const child = await readDirectory(childPath, depth - 1);
+        if (child) {
+          children.push(child);
+        }
+      } catch (childError) {
+        if (childError.code !== "EPERM" && childError.code !== "EACCES") {
+          throw childError;
         }
       }
     }
+  } else {
+    hasChildren = await hasSubdirectories(dirPath);
+  }
 
-    let mtime = null;
-    try {
-      const stats = await fsPromises.stat(dirPath);
-      mtime = stats.mtime;
-    } catch {}
+  return {
+    id: createNodeId("local-fs", dirPath),
+    name: path.basename(dirPath),
+    path: dirPath,
+    children,
+    hasChildren,
+    totalChildren,
+    icon: "folder",
+    color: "#e0e0e0",
+    position: { x: 0, y: 0 },
+    modifiedDate: stats.mtime ? stats.mtime.toISOString() : null,
+  };
+}
 
-    return {
-      id: uuidv4(),
-      name: path.basename(dirPath),
-      path: dirPath,
-      children,
-      icon: "folder",
-      color: "#e0e0e0",
-      position: { x: 0, y: 0 },
-      modifiedDate: mtime ? mtime.toISOString() : null,
-    };
-  } catch (error) {
-    throw error;
+/**
+ * Parse the `depth` query parameter, clamped to a sane range
+ */
+function parseDepth(value, fallback = 1) {
+  const depth = Number.parseInt(value, 10);
+  if (Number.isNaN(depth)) {
+    return fallback;
   }
+  return Math.min(Math.max(depth, 1), MAX_DIRECTORY_DEPTH);
+}
+
+/**
+ * Parse the `offset` and `limit` query parameters. Without a limit every
+ * subfolder is returned.
+ */
+function parsePage({ offset, limit }) {
+  const start = Number.parseInt(offset, 10);
+  const count = Number.parseInt(limit, 10);
+  return {
+    offset: Number.isNaN(start) || start < 0 ? 0 : start,
+    limit: Number.isNaN(count) || count <= 0 ? undefined : count,
+  };
 }
 
+/**
+ * GET /config
+ * Returns backend settings the frontend needs to know about
+ */
+app.get("/config", (_req, res) => {
+  res.json({
+    demoMode: DEMO_MODE,
+    allowedRoots: sandbox.roots,
+    openActions: config.openActions.map(describeOpenAction),
+    childPageSize: config.childPageSize,
+  });
+});
+
 /**
  * GET /drives
- * Returns list of available drives (Windows: C:, D:, etc.)
+ * Returns the allowed roots plus the drives and common folders inside them
  */
 app.get("/drives", async (_req, res) => {
   try {
@@ -222,7 +368,7 @@ app.get("/drives", async (_req, res) => {
         } catch (error) {}
       }
 
-      if (!hasAccessiblePath || drives.length === 0) {
+      if (DEMO_MODE && !hasAccessiblePath) {
         drives.push(
           { name: "C:", path: "C:\\", type: "drive" },
           { name: "D:", path: "D:\\", type: "drive" },
@@ -236,21 +382,36 @@ app.get("/drives", async (_req, res) => {
       }
     }
 
-    if (drives.length === 0) {
-      drives.push(
-        { name: "C:", path: "C:\\", type: "drive" },
-        { name: "D:", path: "D:\\", type: "drive" }
-      );
+    if (DEMO_MODE) {
+      if (drives.length === 0) {
+        drives.push(
+          { name: "C:", path: "C:\\", type: "drive" },
+          { name: "D:", path: "D:\\", type: "drive" }
+        );
+      }
+      return res.json(drives);
     }
 
-    res.json(drives);
+    // Only offer locations inside the allowed roots, and always the roots
+    const offered = drives.filter((drive) => sandbox.isAllowed(drive.path));
+    const rootEntries = sandbox.roots
+      .filter(
+        (root) => !offered.some((drive) => path.resolve(drive.path) === root)
+      )
+      .map((root) => ({
+        name: path.basename(root) || root,
+        path: root,
+        type: path.parse(root).root === root ? "drive" : "folder",
+      }));
+
+    res.json([...rootEntries, ...offered]);
   } catch (error) {
-    res.status(500).json({ error: "Failed to fetch drives" });
+    sendError(res, 500, ErrorCodes.INTERNAL, "Failed to fetch drives");
   }
 });
 
 /**
- * Mock directory structure for fallback (when permissions fail or for testing)
+ * Mock directory structure served in demo mode
  */
 function getMockDirectoryStructure(basePath, baseName) {
   const now = new Date();
@@ -263,25 +424,25 @@ function getMockDirectoryStructure(basePath, baseName) {
   ];
   
   return {
-    id: uuidv4(),
+    id: createNodeId("local-fs", basePath),
     name: baseName || path.basename(basePath) || "Mock Drive",
     path: basePath,
     modifiedDate: now.toISOString(),
     children: [
       {
-        id: uuidv4(),
+        id: createNodeId("local-fs", path.join(basePath, "Users")),
         name: "Users",
         path: path.join(basePath, "Users"),
         modifiedDate: mockDates[0].toISOString(),
         children: [
           {
-            id: uuidv4(),
+            id: createNodeId("local-fs", path.join(basePath, "Users", "User1")),
             name: "User1",
             path: path.join(basePath, "Users", "User1"),
             modifiedDate: mockDates[1].toISOString(),
             children: [
               {
-                id: uuidv4(),
+                id: createNodeId("local-fs", path.join(basePath, "Users", "User1", "Documents")),
                 name: "Documents",
                 path: path.join(basePath, "Users", "User1", "Documents"),
                 children: [],
@@ -291,7 +452,7 @@ function getMockDirectoryStructure(basePath, baseName) {
                 modifiedDate: mockDates[2].toISOString(),
               },
               {
-                id: uuidv4(),
+                id: createNodeId("local-fs", path.join(basePath, "Users", "User1", "Desktop")),
                 name: "Desktop",
                 path: path.join(basePath, "Users", "User1", "Desktop"),
                 children: [],
@@ -311,7 +472,7 @@ function getMockDirectoryStructure(basePath, baseName) {
         position: { x: 0, y: 0 },
       },
       {
-        id: uuidv4(),
+        id: createNodeId("local-fs", path.join(basePath, "Program Files")),
         name: "Program Files",
         path: path.join(basePath, "Program Files"),
         children: [],
@@ -328,37 +489,575 @@ function getMockDirectoryStructure(basePath, baseName) {
 }
 
 /**
- * GET /directory?path=C:\Users
- * Returns folder tree structure
- * Falls back to mock data if permissions fail (macOS) or directory not accessible
+ * Find a folder of the mock tree served in demo mode. Any opened path is
+ * a mock root, so the path is looked up in the mock tree of each of its
+ * ancestors first and only becomes a root of its own when none has it
+ */
+function findMockFolder(dirPath) {
+  const findIn = (node) => {
+    if (node.path === dirPath) {
+      return node;
+    }
+    for (const child of node.children) {
+      const found = findIn(child);
+      if (found) {
+        return found;
+      }
+    }
+    return null;
+  };
+
+  const ancestors = [];
+  for (
+    let current = path.dirname(dirPath);
+    !ancestors.includes(current);
+    current = path.dirname(current)
+  ) {
+    ancestors.unshift(current);
+  }
+  for (const ancestor of [null, ...ancestors]) {
+    const found = findIn(
+      ancestor === null
+        ? mockDirectoryStructure
+        : getMockDirectoryStructure(ancestor, path.basename(ancestor))
+    );
+    if (found) {
+      return found;
+    }
+  }
+  return getMockDirectoryStructure(dirPath, path.basename(dirPath));
+}
+
+/**
+ * GET /directory?path=C:\Users&depth=1&offset=0&limit=200
+ * Returns folder tree structure, `depth` levels deep (default 1), with one
+ * page of the top-level subfolders when `limit` is given
+ * In demo mode, returns the mock folder tree instead of reading the disk
  */
 app.get("/directory", async (req, res) => {
+  const { path: dirPath, depth } = req.query;
+
+  if (DEMO_MODE) {
+    return res.json(
+      dirPath
+        ? getMockDirectoryStructure(dirPath, path.basename(dirPath))
+        : mockDirectoryStructure
+    );
+  }
+
+  if (!dirPath) {
+    return sendError(res, 400, ErrorCodes.BAD_REQUEST, "Path required");
+  }
+
+  try {
+    const resolved = await sandbox.resolve(dirPath);
+    const structure = await readDirectory(
+      resolved,
+      parseDepth(depth),
+      parsePage(req.query)
+    );
+    if (!structure) {
+      return sendError(
+        res,
+        400,
+        ErrorCodes.NOT_A_DIRECTORY,
+        `Not a folder: ${dirPath}`
+      );
+    }
+
+    res.json(structure);
+  } catch (error) {
+    sendFileSystemError(res, error, dirPath, "Failed to read folder");
+  }
+});
+
+/**
+ * GET /directory/children?path=C:\Users&depth=1&offset=0&limit=200
+ * Returns only the children of a folder, used to expand nodes on demand.
+ * `total` is the number of subfolders, so pages can be requested one by one.
+ * In demo mode, returns the children of the matching mock folder
+ */
+app.get("/directory/children", async (req, res) => {
+  const { path: dirPath, depth } = req.query;
+
+  if (!dirPath) {
+    return sendError(res, 400, ErrorCodes.BAD_REQUEST, "Path required");
+  }
+
+  if (DEMO_MODE) {
+    const folder = findMockFolder(dirPath);
+    const { offset, limit } = parsePage(req.query);
+    return res.json({
+      path: folder.path,
+      children: folder.children.slice(
+        offset,
+        limit === undefined ? undefined : offset + limit
+      ),
+      total: folder.children.length,
+    });
+  }
+
   try {
-    const { path: dirPath } = req.query;
+    const resolved = await sandbox.resolve(dirPath);
+    const structure = await readDirectory(
+      resolved,
+      parseDepth(depth),
+      parsePage(req.query)
+    );
+    if (!structure) {
+      return sendError(
+        res,
+        400,
+        ErrorCodes.NOT_A_DIRECTORY,
+        `Not a folder: ${dirPath}`
+      );
+    }
+
+    res.json({
+      path: structure.path,
+      children: structure.children,
+      total: structure.totalChildren,
+    });
+  } catch (error) {
+    sendFileSystemError(res, error, dirPath, "Failed to read folder");
+  }
+});
+
+/**
+ * Everything connector endpoints
+ * Configure with EVERYTHING_HOST / EVERYTHING_PORT (see backend/everything.js)
+ */
+function sendEverythingError(res, error, fallbackMessage) {
+  if (error instanceof EverythingUnavailableError) {
+    return sendError(
+      res,
+      503,
+      ErrorCodes.CONNECTOR_UNAVAILABLE,
+      error.message
+    );
+  }
+  sendError(res, 500, ErrorCodes.INTERNAL, fallbackMessage);
+}
 
-    if (!dirPath) {
-      return res.json(mockDirectoryStructure);
+/**
+ * GET /connectors/everything/list?path=C:\Users&limit=500&offset=0
+ * Entries outside the allowed roots are left out. Everything pages before
+ * they are, so once a page loses entries `total` ends at that page and
+ * `filtered` is set; later pages would come back short or empty.
+ */
+app.get("/connectors/everything/list", async (req, res) => {
+  try {
+    const { path: folderPath, limit, offset } = req.query;
+    if (folderPath && !sandbox.isAllowed(folderPath)) {
+      return sendError(
+        res,
+        403,
+        ErrorCodes.PATH_NOT_ALLOWED,
+        `Path is outside the allowed roots: ${folderPath}`
+      );
     }
 
-    let structure = null;
-    try {
-      structure = await readDirectory(dirPath);
-    } catch (error) {
-      structure = null;
+    const listing = await everything.list(folderPath, { limit, offset });
+    const children = listing.children.filter((child) =>
+      sandbox.isAllowed(child.path)
+    );
+    const filtered = children.length < listing.children.length;
+    res.json({
+      ...listing,
+      children,
+      total: filtered
+        ? parsePage(req.query).offset + children.length
+        : listing.total,
+      filtered,
+    });
+  } catch (error) {
+    sendEverythingError(res, error, "Failed to list Everything folder");
+  }
+});
+
+/**
+ * GET /connectors/everything/search?q=keyword&limit=60
+ * Results outside the allowed roots are left out; `totalResults` then only
+ * counts what is returned and `filtered` is set
+ */
+app.get("/connectors/everything/search", async (req, res) => {
+  try {
+    const { q, limit } = req.query;
+    if (!q) {
+      return res.json({
+        query: "",
+        totalResults: 0,
+        results: [],
+        filtered: false,
+      });
     }
 
-    if (!structure || !structure.children || structure.children.length === 0) {
-      structure = getMockDirectoryStructure(dirPath, path.basename(dirPath));
+    const result = await everything.search(q, { limit });
+    const results = result.results.filter((entry) =>
+      sandbox.isAllowed(entry.path)
+    );
+    const filtered = results.length < result.results.length;
+    res.json({
+      ...result,
+      results,
+      totalResults: filtered ? results.length : result.totalResults,
+      filtered,
+    });
+  } catch (error) {
+    sendEverythingError(res, error, "Failed to search Everything");
+  }
+});
+
+/**
+ * Live file system updates
+ * Watched roots push folder add/remove/rename events to every client
+ * connected to GET /events (Server-Sent Events)
+ */
+function broadcastEvent(eventName, payload) {
+  const message = `event: ${eventName}\ndata: ${JSON.stringify(payload)}\n\n`;
+  eventClients.forEach((client) => client.write(message));
+}
+
+async function handleRootChanges(rootPath, events) {
+  for (const event of events) {
+    if (event.type === "add" || event.type === "rename") {
+      try {
+        event.node = await readDirectory(event.path, 0);
+      } catch {
+        continue;
+      }
     }
+    broadcastEvent("fs", { root: rootPath, ...event });
+  }
+}
 
-    res.json(structure);
+app.get("/events", (req, res) => {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  // The client passes this ID to /watch and /unwatch; its watches end with
+  // the connection
+  const clientId = uuidv4();
+  res.write(`event: hello\ndata: ${JSON.stringify({ clientId })}\n\n`);
+
+  eventClients.add(res);
+  req.on("close", () => {
+    eventClients.delete(res);
+    [...rootWatchers.keys()].forEach((rootPath) =>
+      releaseWatcher(rootPath, clientId)
+    );
+  });
+});
+
+// Drop a client's interest in a root and close the watcher when it was the last
+function releaseWatcher(rootPath, clientId) {
+  const entry = rootWatchers.get(rootPath);
+  if (!entry) {
+    return;
+  }
+  entry.clients.delete(clientId);
+  if (entry.clients.size === 0) {
+    entry.watcher.close();
+    rootWatchers.delete(rootPath);
+  }
+}
+
+/**
+ * POST /watch
+ * Starts watching a root folder for changes on behalf of an /events client
+ * (`{ path, clientId }`)
+ */
+app.post("/watch", async (req, res) => {
+  try {
+    const { path: rootPath, clientId = "" } = req.body;
+
+    if (!rootPath) {
+      return sendError(res, 400, ErrorCodes.BAD_REQUEST, "Path required");
+    }
+
+    const resolved = await sandbox.resolve(rootPath);
+    if (!rootWatchers.has(resolved)) {
+      const stats = await fsPromises.stat(resolved);
+      if (!stats.isDirectory()) {
+        return sendError(
+          res,
+          400,
+          ErrorCodes.NOT_A_DIRECTORY,
+          `Not a folder: ${rootPath}`
+        );
+      }
+      // Another request may have started one while this one checked the folder
+      if (!rootWatchers.has(resolved)) {
+        rootWatchers.set(resolved, {
+          watcher: watchRoot(resolved, (events) =>
+            handleRootChanges(resolved, events)
+          ),
+          clients: new Set(),
+        });
+      }
+    }
+    rootWatchers.get(resolved).clients.add(String(clientId));
+
+    res.json({ path: resolved, watching: true });
+  } catch (error) {
+    sendFileSystemError(res, error, req.body.path, "Failed to watch folder");
+  }
+});
+
+/**
+ * POST /unwatch
+ * Stops watching a root folder for a client (`{ path, clientId }`). The
+ * folder may be gone from disk, so the path is not resolved again.
+ */
+app.post("/unwatch", (req, res) => {
+  const { path: rootPath, clientId = "" } = req.body;
+
+  if (!rootPath) {
+    return sendError(res, 400, ErrorCodes.BAD_REQUEST, "Path required");
+  }
+
+  const resolved = path.resolve(rootPath);
+  releaseWatcher(resolved, String(clientId));
+  res.json({ path: resolved, watching: rootWatchers.has(resolved) });
+});
+
+/**
+ * Folder operations
+ * Create, rename, move and trash folders on disk. Each one is journaled (see
+ * backend/file-operations.js) and answered with the file system event the
+ * canvas should apply, which is also pushed to every /events client.
+ */
+async function publishFolderEvent(event) {
+  const folderEvent = { root: sandbox.findRoot(event.path), ...event };
+  if (event.type !== "remove") {
+    try {
+      folderEvent.node = await readDirectory(event.path, 0);
+    } catch {}
+  }
+  broadcastEvent("fs", folderEvent);
+  return folderEvent;
+}
+
+function rejectDemoMode(res) {
+  return sendError(
+    res,
+    400,
+    ErrorCodes.BAD_REQUEST,
+    "Folders cannot be changed in demo mode"
+  );
+}
+
+// The allowed roots themselves stay put
+function rejectRoot(res, resolved, folderPath) {
+  if (sandbox.findRoot(resolved) !== resolved) {
+    return false;
+  }
+  sendError(
+    res,
+    403,
+    ErrorCodes.PATH_NOT_ALLOWED,
+    `Allowed roots cannot be renamed or moved: ${folderPath}`
+  );
+  return true;
+}
+
+/**
+ * POST /folders  { parentPath, name }
+ * Creates a folder
+ */
+app.post("/folders", async (req, res) => {
+  const { parentPath, name } = req.body;
+  if (DEMO_MODE) {
+    return rejectDemoMode(res);
+  }
+  if (!parentPath || !name) {
+    return sendError(
+      res,
+      400,
+      ErrorCodes.BAD_REQUEST,
+      "Parent path and name required"
+    );
+  }
+
+  try {
+    const resolved = await sandbox.resolve(parentPath);
+    const operation = await fileOperations.createFolder(resolved, name);
+    const event = await publishFolderEvent({
+      type: "add",
+      path: operation.path,
+    });
+    res.status(201).json({ operation, event });
+  } catch (error) {
+    sendFileSystemError(res, error, parentPath, "Failed to create folder");
+  }
+});
+
+/**
+ * POST /folders/rename  { path, name }
+ * Renames a folder within its parent
+ */
+app.post("/folders/rename", async (req, res) => {
+  const { path: folderPath, name } = req.body;
+  if (DEMO_MODE) {
+    return rejectDemoMode(res);
+  }
+  if (!folderPath || !name) {
+    return sendError(res, 400, ErrorCodes.BAD_REQUEST, "Path and name required");
+  }
+
+  try {
+    const resolved = await sandbox.resolve(folderPath);
+    if (rejectRoot(res, resolved, folderPath)) {
+      return;
+    }
+    const operation = await fileOperations.renameFolder(resolved, name);
+    const event = await publishFolderEvent({
+      type: "rename",
+      from: operation.from,
+      path: operation.path,
+    });
+    res.json({ operation, event });
   } catch (error) {
-    const { path: dirPath } = req.query;
-    const mockStructure = getMockDirectoryStructure(
-      dirPath || "C:\\",
-      "Mock Drive"
+    sendFileSystemError(res, error, folderPath, "Failed to rename folder");
+  }
+});
+
+/**
+ * POST /folders/move  { path, targetPath, requestId }
+ * Moves a folder into another folder. Moves across devices are copied and
+ * report their progress as "progress" events on /events, tagged with the
+ * caller's `requestId`.
+ */
+app.post("/folders/move", async (req, res) => {
+  const { path: folderPath, targetPath, requestId } = req.body;
+  if (DEMO_MODE) {
+    return rejectDemoMode(res);
+  }
+  if (!folderPath || !targetPath) {
+    return sendError(
+      res,
+      400,
+      ErrorCodes.BAD_REQUEST,
+      "Path and target path required"
     );
-    res.json(mockStructure);
+  }
+
+  let lastProgressAt = 0;
+  const reportProgress = ({ copiedBytes, totalBytes }) => {
+    const now = Date.now();
+    if (
+      !requestId ||
+      (now - lastProgressAt < PROGRESS_INTERVAL_MS && copiedBytes < totalBytes)
+    ) {
+      return;
+    }
+    lastProgressAt = now;
+    broadcastEvent("progress", { requestId, copiedBytes, totalBytes });
+  };
+
+  try {
+    const resolved = await sandbox.resolve(folderPath);
+    if (rejectRoot(res, resolved, folderPath)) {
+      return;
+    }
+    const resolvedTarget = await sandbox.resolve(targetPath);
+    const operation = await fileOperations.moveFolder(
+      resolved,
+      resolvedTarget,
+      reportProgress
+    );
+    const event = await publishFolderEvent({
+      type: "rename",
+      from: operation.from,
+      path: operation.path,
+    });
+    res.json({ operation, event });
+  } catch (error) {
+    sendFileSystemError(res, error, folderPath, "Failed to move folder");
+  }
+});
+
+/**
+ * POST /folders/trash  { path }
+ * Moves a folder to the backend's trash directory
+ */
+app.post("/folders/trash", async (req, res) => {
+  const { path: folderPath } = req.body;
+  if (DEMO_MODE) {
+    return rejectDemoMode(res);
+  }
+  if (!folderPath) {
+    return sendError(res, 400, ErrorCodes.BAD_REQUEST, "Path required");
+  }
+
+  try {
+    const resolved = await sandbox.resolve(folderPath);
+    if (rejectRoot(res, resolved, folderPath)) {
+      return;
+    }
+    const operation = await fileOperations.trashFolder(resolved);
+    const event = await publishFolderEvent({
+      type: "remove",
+      path: operation.path,
+    });
+    res.json({ operation, event });
+  } catch (error) {
+    sendFileSystemError(res, error, folderPath, "Failed to move folder to trash");
+  }
+});
+
+/**
+ * GET /operations
+ * Returns the folder operation journal, oldest first
+ */
+app.get("/operations", async (_req, res) => {
+  try {
+    res.json(await fileOperations.listOperations());
+  } catch (error) {
+    sendError(res, 500, ErrorCodes.INTERNAL, "Failed to read operations");
+  }
+});
+
+/**
+ * POST /operations/undo
+ * Reverses the most recent folder operation
+ */
+app.post("/operations/undo", async (_req, res) => {
+  if (DEMO_MODE) {
+    return rejectDemoMode(res);
+  }
+
+  let targetPath;
+  try {
+    const last = await fileOperations.getLastOperation();
+    targetPath = last ? last.path : undefined;
+    if (
+      last &&
+      [last.path, last.from]
+        .filter(Boolean)
+        .some((operationPath) => !sandbox.isAllowed(operationPath))
+    ) {
+      return sendError(
+        res,
+        403,
+        ErrorCodes.PATH_NOT_ALLOWED,
+        `Path is outside the allowed roots: ${last.path}`
+      );
+    }
+
+    const operation = await fileOperations.undoLastOperation();
+    const inverse = {
+      create: { type: "remove", path: operation.path },
+      rename: { type: "rename", from: operation.path, path: operation.from },
+      move: { type: "rename", from: operation.path, path: operation.from },
+      trash: { type: "add", path: operation.path },
+    }[operation.type];
+    const event = await publishFolderEvent(inverse);
+    res.json({ operation, event });
+  } catch (error) {
+    sendFileSystemError(res, error, targetPath, "Failed to undo operation");
   }
 });
 
@@ -368,9 +1067,9 @@ app.get("/directory", async (req, res) => {
 app.get("/layouts", async (_req, res) => {
   try {
     const layouts = await readLayouts();
-    res.json(layouts);
+    res.json(layouts.filter((layout) => !layout.scratch));
   } catch (error) {
-    res.status(500).json({ error: "Failed to load layouts" });
+    sendError(res, 500, ErrorCodes.INTERNAL, "Failed to load layouts");
   }
 });
 
@@ -379,142 +1078,514 @@ app.get("/layouts/:id", async (req, res) => {
     const layouts = await readLayouts();
     const layout = layouts.find((l) => l.id === req.params.id);
     if (!layout) {
-      return res.status(404).json({ error: "Layout not found" });
+      return sendError(res, 404, ErrorCodes.NOT_FOUND, "Layout not found");
     }
-    res.json(layout);
+    res.set("ETag", layoutEtag(layout)).json(layout);
   } catch (error) {
-    res.status(500).json({ error: "Failed to fetch layout" });
+    sendError(res, 500, ErrorCodes.INTERNAL, "Failed to fetch layout");
   }
 });
 
 app.post("/layouts", async (req, res) => {
   try {
-    const { name, mode, nodes, areas } = req.body;
+    const { name, mode, nodes, areas, message } = req.body;
     if (!name || !mode || !nodes) {
-      return res.status(400).json({ error: "Missing layout data" });
+      return sendError(
+        res,
+        400,
+        ErrorCodes.BAD_REQUEST,
+        "Missing layout data"
+      );
     }
 
-    const layouts = await readLayouts();
+    const now = new Date().toISOString();
     const layout = {
       id: uuidv4(),
       name,
       mode,
       nodes,
       areas: areas || [],
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
+      createdAt: now,
+      updatedAt: now,
     };
-    layouts.push(layout);
-    await writeLayouts(layouts);
-    res.status(201).json(layout);
+    await updateLayouts(async (layouts) => {
+      await layoutHistory.addRevision(layout, message);
+      return { layouts: [...layouts, layout], result: layout };
+    });
+    res.status(201).set("ETag", layoutEtag(layout)).json(layout);
   } catch (error) {
-    res.status(500).json({ error: "Failed to save layout" });
+    sendError(res, 500, ErrorCodes.INTERNAL, "Failed to save layout");
   }
 });
 
-app.delete("/layouts/:id", async (req, res) => {
+/**
+ * Apply `changes(layout)` to a stored layout, but only when the request's
+ * If-Match header still names its current version. Answers 428 without the
+ * header and 412 when another client saved the layout in the meantime.
+ * With `revision` ({ message }) the result is kept in the layout's history.
+ */
+async function updateLayoutIfCurrent(
+  req,
+  res,
+  layoutId,
+  changes,
+  fallbackMessage,
+  revision = null
+) {
+  const expected = req.get("If-Match");
+  if (!expected) {
+    return sendError(
+      res,
+      428,
+      ErrorCodes.BAD_REQUEST,
+      "If-Match header with the layout's ETag required"
+    );
+  }
+
   try {
-    const layouts = await readLayouts();
-    const filtered = layouts.filter((layout) => layout.id !== req.params.id);
-    await writeLayouts(filtered);
-    res.json({ success: true });
+    const layout = await updateLayouts(async (layouts) => {
+      const index = layouts.findIndex((l) => l.id === layoutId);
+      if (index === -1) {
+        throw new LayoutNotFoundError();
+      }
+      const current = layouts[index];
+      if (expected !== "*" && expected !== layoutEtag(current)) {
+        throw new LayoutConflictError();
+      }
+
+      const updated = {
+        ...current,
+        ...changes(current),
+        id: current.id,
+        createdAt: current.createdAt,
+        updatedAt: nextUpdatedAt(current.updatedAt),
+      };
+      if (revision) {
+        await layoutHistory.addRevision(updated, revision.message);
+      }
+      const next = [...layouts];
+      next[index] = updated;
+      return { layouts: next, result: updated };
+    });
+    res.set("ETag", layoutEtag(layout)).json(layout);
   } catch (error) {
-    res.status(500).json({ error: "Failed to delete layout" });
+    if (error instanceof LayoutNotFoundError) {
+      return sendError(res, 404, ErrorCodes.NOT_FOUND, error.message);
+    }
+    if (error instanceof LayoutConflictError) {
+      return sendError(res, 412, ErrorCodes.LAYOUT_CONFLICT, error.message);
+    }
+    sendError(res, 500, ErrorCodes.INTERNAL, fallbackMessage);
   }
+}
+
+/**
+ * PUT /layouts/:id  { name?, mode, nodes, areas, message? }  (If-Match: "<updatedAt>")
+ * Overwrites a saved layout and keeps the result as a revision
+ */
+app.put("/layouts/:id", async (req, res) => {
+  const { name, mode, nodes, areas, message } = req.body;
+  if (!mode || !nodes) {
+    return sendError(res, 400, ErrorCodes.BAD_REQUEST, "Missing layout data");
+  }
+
+  await updateLayoutIfCurrent(
+    req,
+    res,
+    req.params.id,
+    (current) => ({
+      name: name || current.name,
+      mode,
+      nodes,
+      areas: areas || [],
+    }),
+    "Failed to save layout",
+    { message }
+  );
 });
 
 /**
- * POST /save-layout
- * Saves node positions and customizations
+ * PATCH /layouts/:id  { name }  (If-Match: "<updatedAt>")
+ * Renames a saved layout
  */
-app.post("/save-layout", async (req, res) => {
+app.patch("/layouts/:id", async (req, res) => {
+  const name = typeof req.body.name === "string" ? req.body.name.trim() : "";
+  if (!name) {
+    return sendError(res, 400, ErrorCodes.BAD_REQUEST, "Layout name required");
+  }
+
+  await updateLayoutIfCurrent(
+    req,
+    res,
+    req.params.id,
+    () => ({ name }),
+    "Failed to rename layout"
+  );
+});
+
+/**
+ * POST /layouts/:id/duplicate  { name? }
+ * Copies a saved layout under a new name (default "<name> copy")
+ */
+app.post("/layouts/:id/duplicate", async (req, res) => {
+  try {
+    const copy = await updateLayouts(async (layouts) => {
+      const source = layouts.find((l) => l.id === req.params.id);
+      if (!source) {
+        throw new LayoutNotFoundError();
+      }
+      const now = new Date().toISOString();
+      const layout = {
+        ...source,
+        id: uuidv4(),
+        name: (req.body && req.body.name) || `${source.name} copy`,
+        createdAt: now,
+        updatedAt: now,
+      };
+      await layoutHistory.addRevision(layout, `Copied from ${source.name}`);
+      return { layouts: [...layouts, layout], result: layout };
+    });
+    res.status(201).set("ETag", layoutEtag(copy)).json(copy);
+  } catch (error) {
+    if (error instanceof LayoutNotFoundError) {
+      return sendError(res, 404, ErrorCodes.NOT_FOUND, error.message);
+    }
+    sendError(res, 500, ErrorCodes.INTERNAL, "Failed to duplicate layout");
+  }
+});
+
+/**
+ * POST /layouts/import  { file, rewrite?: { from, to } }
+ * Saves the layout from an exported layout file as a new layout. Folder paths
+ * starting with `rewrite.from` are moved to `rewrite.to`. The file's layout ID
+ * is kept unless a saved layout already uses it.
+ */
+app.post("/layouts/import", async (req, res) => {
+  const { file, rewrite } = req.body;
+  if (
+    rewrite &&
+    !(
+      typeof rewrite.from === "string" &&
+      rewrite.from &&
+      typeof rewrite.to === "string" &&
+      rewrite.to
+    )
+  ) {
+    return sendError(
+      res,
+      400,
+      ErrorCodes.BAD_REQUEST,
+      "Path rewrite needs both a from and a to path"
+    );
+  }
+
+  let imported;
   try {
-    const { nodes, areas, layoutMode } = req.body;
+    imported = rekeyLayout(readLayoutFile(file), rewrite || null);
+  } catch (error) {
+    if (error instanceof InvalidLayoutFileError) {
+      return sendError(res, 400, ErrorCodes.BAD_REQUEST, error.message);
+    }
+    return sendError(res, 500, ErrorCodes.INTERNAL, "Failed to import layout");
+  }
 
-    res.json({ success: true, message: "Layout saved" });
+  try {
+    const layout = await updateLayouts(async (layouts) => {
+      const takenIds = new Set(layouts.map((l) => l.id));
+      const id =
+        typeof imported.id === "string" &&
+        imported.id !== SCRATCH_LAYOUT_ID &&
+        !takenIds.has(imported.id)
+          ? imported.id
+          : uuidv4();
+      const now = new Date().toISOString();
+      const created = {
+        id,
+        name: imported.name,
+        mode: imported.mode,
+        nodes: imported.nodes,
+        areas: imported.areas,
+        ...(imported.viewport ? { viewport: imported.viewport } : {}),
+        createdAt: now,
+        updatedAt: now,
+      };
+      await layoutHistory.addRevision(created, "Imported from a layout file");
+      return { layouts: [...layouts, created], result: created };
+    });
+    res.status(201).set("ETag", layoutEtag(layout)).json(layout);
   } catch (error) {
-    res.status(500).json({ error: "Failed to save layout" });
+    sendError(res, 500, ErrorCodes.INTERNAL, "Failed to import layout");
   }
 });
 
 /**
- * GET /search?q=keyword
+ * GET /layouts/:id/revisions
+ * Lists the saved revisions of a layout, newest first, without their nodes
  */
-app.get("/search", async (req, res) => {
+app.get("/layouts/:id/revisions", async (req, res) => {
   try {
-    const { q } = req.query;
+    res.json(await layoutHistory.listRevisions(req.params.id));
+  } catch (error) {
+    sendError(res, 500, ErrorCodes.INTERNAL, "Failed to load layout history");
+  }
+});
 
-    if (!q) {
-      return res.json([]);
+app.get("/layouts/:id/revisions/:revisionId", async (req, res) => {
+  try {
+    const revision = await layoutHistory.getRevision(
+      req.params.id,
+      req.params.revisionId
+    );
+    if (!revision) {
+      return sendError(res, 404, ErrorCodes.NOT_FOUND, "Revision not found");
     }
+    res.json(revision);
+  } catch (error) {
+    sendError(res, 500, ErrorCodes.INTERNAL, "Failed to fetch revision");
+  }
+});
 
-    res.json([]);
+/**
+ * POST /layouts/:id/revisions/:revisionId/restore  (If-Match: "<updatedAt>")
+ * Overwrites a saved layout with one of its revisions. The restore is itself
+ * kept as a revision, so it can be undone the same way.
+ */
+app.post("/layouts/:id/revisions/:revisionId/restore", async (req, res) => {
+  let revision;
+  try {
+    revision = await layoutHistory.getRevision(
+      req.params.id,
+      req.params.revisionId
+    );
   } catch (error) {
-    res.status(500).json({ error: "Search failed" });
+    return sendError(res, 500, ErrorCodes.INTERNAL, "Failed to fetch revision");
+  }
+  if (!revision) {
+    return sendError(res, 404, ErrorCodes.NOT_FOUND, "Revision not found");
+  }
+
+  await updateLayoutIfCurrent(
+    req,
+    res,
+    req.params.id,
+    () => ({ mode: revision.mode, nodes: revision.nodes, areas: revision.areas }),
+    "Failed to restore layout",
+    { message: `Restored revision from ${revision.createdAt}` }
+  );
+});
+
+app.delete("/layouts/:id", async (req, res) => {
+  try {
+    await updateLayouts(async (layouts) => {
+      await layoutHistory.removeHistory(req.params.id);
+      return {
+        layouts: layouts.filter((layout) => layout.id !== req.params.id),
+      };
+    });
+    res.json({ success: true });
+  } catch (error) {
+    sendError(res, 500, ErrorCodes.INTERNAL, "Failed to delete layout");
   }
 });
 
 /**
- * GET /starred-files
+ * POST /save-layout  { layoutId?, nodes, areas, layoutMode }
+ * Autosaves node positions and customizations. With a layoutId the saved
+ * layout is overwritten (If-Match required) without keeping a revision;
+ * without one the scratch layout is.
  */
-app.get("/starred-files", async (req, res) => {
+app.post("/save-layout", async (req, res) => {
+  const { layoutId, nodes, areas, layoutMode } = req.body;
+  if (!nodes || !layoutMode) {
+    return sendError(res, 400, ErrorCodes.BAD_REQUEST, "Missing layout data");
+  }
+  const changes = () => ({ mode: layoutMode, nodes, areas: areas || [] });
+
+  if (layoutId) {
+    return updateLayoutIfCurrent(
+      req,
+      res,
+      layoutId,
+      changes,
+      "Failed to save layout"
+    );
+  }
+
   try {
-    res.json([]);
+    const layout = await updateLayouts((layouts) => {
+      const current = layouts.find((l) => l.id === SCRATCH_LAYOUT_ID);
+      const now = nextUpdatedAt(current && current.updatedAt);
+      const scratch = {
+        id: SCRATCH_LAYOUT_ID,
+        name: "Unsaved canvas",
+        scratch: true,
+        ...changes(),
+        createdAt: current ? current.createdAt : now,
+        updatedAt: now,
+      };
+      return {
+        layouts: [
+          ...layouts.filter((l) => l.id !== SCRATCH_LAYOUT_ID),
+          scratch,
+        ],
+        result: scratch,
+      };
+    });
+    res.set("ETag", layoutEtag(layout)).json(layout);
   } catch (error) {
-    res.status(500).json({ error: "Failed to fetch starred files" });
+    sendError(res, 500, ErrorCodes.INTERNAL, "Failed to save layout");
   }
 });
 
 /**
- * POST /open-folder
- * Opens folder in OS file explorer
+ * POST /index
+ * Starts building the filename index for a local-fs root
  */
-app.post("/open-folder", async (req, res) => {
+app.post("/index", async (req, res) => {
   try {
-    const { path: folderPath } = req.body;
+    const { path: rootPath } = req.body;
 
-    if (!folderPath) {
-      return res.status(400).json({ error: "Path required" });
+    if (!rootPath) {
+      return sendError(res, 400, ErrorCodes.BAD_REQUEST, "Path required");
     }
 
-    const platform = process.platform;
-    const isWindowsPath = /^[a-zA-Z]:\\/.test(folderPath);
+    const index = getFileIndex(await sandbox.resolve(rootPath));
+    res.status(202).json({ path: index.rootPath });
+  } catch (error) {
+    sendFileSystemError(res, error, req.body.path, "Failed to index folder");
+  }
+});
 
-    if (platform !== "win32" && isWindowsPath) {
-      return res.status(400).json({
-        error:
-          "Windows-style paths cannot be opened on this OS. Run the backend on Windows or provide a local path.",
-      });
-    }
+/**
+ * GET /search?q=keyword&mode=substring|prefix|glob&type=folder&root=<path>&limit=50
+ * Searches the filename indexes of the given roots (or every indexed root).
+ * Roots still being scanned answer from what is indexed so far; `ready` is
+ * false until every scan is done, and `truncated` is set when an index hit
+ * its entry limit.
+ */
+app.get("/search", async (req, res) => {
+  try {
+    const { q, mode, type, root } = req.query;
 
-    if (!fs.existsSync(folderPath)) {
-      return res.status(404).json({
-        error: "Folder does not exist on this machine.",
+    if (!q) {
+      return res.json({
+        query: "",
+        totalResults: 0,
+        results: [],
+        ready: true,
+        truncated: false,
       });
     }
 
-    const { exec } = require("child_process");
+    // Roots outside the sandbox (or gone from disk) are skipped
+    const roots = root
+      ? (
+        await Promise.all(
+          [].concat(root).map((rootPath) =>
+            sandbox.resolve(rootPath).catch(() => null)
+          )
+        )
+      ).filter(Boolean)
+      : listIndexedRoots();
+    const limit = Math.min(Number.parseInt(req.query.limit, 10) || 50, 500);
+    const matchesName = createMatcher(q, mode);
+    const matches = (entry) =>
+      (!type || entry.type === type) && matchesName(entry.name);
 
-    let command;
-    if (platform === "win32") {
-      command = `start "" "${folderPath}"`;
-    } else if (platform === "darwin") {
-      command = `open "${folderPath}"`;
-    } else {
-      command = `xdg-open "${folderPath}"`;
+    let totalResults = 0;
+    let ready = true;
+    let truncated = false;
+    const results = [];
+    for (const rootPath of roots) {
+      const index = getFileIndex(rootPath);
+      index.refreshIfStale();
+      ready = ready && index.scanned;
+      truncated = truncated || index.truncated;
+
+      const found = index.search(matches, limit - results.length);
+      totalResults += found.totalResults;
+      results.push(...found.results);
     }
 
-    exec(command, (error) => {
-      if (error) {
-        return res.status(500).json({ error: "Failed to open folder" });
-      }
-      res.json({ success: true });
-    });
+    res.json({ query: q, totalResults, results, ready, truncated });
+  } catch (error) {
+    sendError(res, 500, ErrorCodes.INTERNAL, "Search failed");
+  }
+});
+
+/**
+ * GET /starred-files
+ */
+app.get("/starred-files", async (req, res) => {
+  try {
+    res.json([]);
   } catch (error) {
-    res.status(500).json({ error: "Failed to open folder" });
+    sendError(res, 500, ErrorCodes.INTERNAL, "Failed to fetch starred files");
   }
 });
 
+/**
+ * Launch an open action for a folder inside the allowed roots
+ */
+async function openWithAction(req, res, actionId) {
+  const { path: folderPath } = req.body;
+
+  if (!folderPath) {
+    return sendError(res, 400, ErrorCodes.BAD_REQUEST, "Path required");
+  }
+
+  const action = actionId
+    ? config.openActions.find((candidate) => candidate.id === actionId)
+    : config.openActions[0];
+  if (!action) {
+    return sendError(
+      res,
+      400,
+      ErrorCodes.BAD_REQUEST,
+      `Unknown open action: ${actionId}`
+    );
+  }
+
+  let resolved;
+  try {
+    resolved = await sandbox.resolve(folderPath);
+  } catch (error) {
+    return sendFileSystemError(res, error, folderPath, "Failed to open folder");
+  }
+
+  try {
+    await runOpenAction(action, resolved);
+    res.json({ success: true });
+  } catch (error) {
+    sendError(
+      res,
+      500,
+      ErrorCodes.INTERNAL,
+      `Could not start "${action.command}" for ${action.label}`
+    );
+  }
+}
+
+/**
+ * POST /open  { path, action }
+ * Opens a folder with one of the configured open actions
+ */
+app.post("/open", async (req, res) => {
+  await openWithAction(req, res, req.body.action);
+});
+
+/**
+ * POST /open-folder
+ * Opens folder with the default open action (the OS file manager)
+ */
+app.post("/open-folder", async (req, res) => {
+  await openWithAction(req, res);
+});
+
 app.listen(PORT, () => {
   console.log(`Backend server running on http://localhost:${PORT}`);
+  console.log(`Allowed roots: ${sandbox.roots.join(", ")}`);
+  if (DEMO_MODE) {
+    console.log("Demo mode: serving mock folder data");
+  }
 });
@@ -0,0 +1,124 @@
+/* eslint-disable @typescript-eslint/no-require-imports */
+// File system watcher for folders added to the canvas
+// Batches raw fs.watch notifications per root and turns them into
+// add / remove / rename events for folders
+
+const path = require("path");
+const fs = require("fs");
+const fsPromises = fs.promises;
+
+const BATCH_DELAY_MS = 200;
+
+async function isDirectory(targetPath) {
+  try {
+    const stats = await fsPromises.stat(targetPath);
+    return stats.isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+async function exists(targetPath) {
+  try {
+    await fsPromises.lstat(targetPath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Classify a batch of changed paths. A removal and an addition in the same
+ * parent folder within one batch are reported as a rename.
+ */
+async function classifyChanges(changedPaths) {
+  const added = [];
+  const removed = [];
+
+  for (const changedPath of changedPaths) {
+    if (await isDirectory(changedPath)) {
+      added.push(changedPath);
+    } else if (!(await exists(changedPath))) {
+      removed.push(changedPath);
+    }
+  }
+
+  const events = [];
+  const pairedAdds = new Set();
+  for (const removedPath of removed) {
+    const parent = path.dirname(removedPath);
+    const candidates = added.filter(
+      (addedPath) => path.dirname(addedPath) === parent && !pairedAdds.has(addedPath)
+    );
+    const removedInParent = removed.filter(
+      (otherPath) => path.dirname(otherPath) === parent
+    );
+
+    if (candidates.length === 1 && removedInParent.length === 1) {
+      pairedAdds.add(candidates[0]);
+      events.push({ type: "rename", from: removedPath, path: candidates[0] });
+    } else {
+      events.push({ type: "remove", path: removedPath });
+    }
+  }
+
+  added
+    .filter((addedPath) => !pairedAdds.has(addedPath))
+    .forEach((addedPath) => events.push({ type: "add", path: addedPath }));
+
+  return events;
+}
+
+/**
+ * Watch a root folder and call `onEvents(events)` with batched folder changes.
+ * Uses recursive watching where the platform supports it, otherwise only
+ * the root folder's direct children are watched.
+ */
+function watchRoot(rootPath, onEvents) {
+  const pending = new Set();
+  let timer = null;
+
+  const flush = async () => {
+    timer = null;
+    const changedPaths = [...pending];
+    pending.clear();
+    try {
+      const events = await classifyChanges(changedPaths);
+      if (events.length > 0) {
+        onEvents(events);
+      }
+    } catch {}
+  };
+
+  const handleChange = (_eventType, filename) => {
+    if (!filename) {
+      return;
+    }
+    pending.add(path.join(rootPath, filename.toString()));
+    if (!timer) {
+      timer = setTimeout(flush, BATCH_DELAY_MS);
+    }
+  };
+
+  let watcher;
+  try {
+    watcher = fs.watch(rootPath, { recursive: true }, handleChange);
+  } catch (error) {
+    if (error.code !== "ERR_FEATURE_UNAVAILABLE_ON_PLATFORM") {
+      throw error;
+    }
+    watcher = fs.watch(rootPath, handleChange);
+  }
+  watcher.on("error", () => {});
+
+  return {
+    close() {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      watcher.close();
+    },
+  };
+}
+
+module.exports = { watchRoot };
@@ -0,0 +1,156 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { useFlowStore } from '@/store/useFlowStore';
+import { getPathName } from '@/lib/utils';
+import { PendingFolderOperation } from '@/lib/types';
+
+export default function FolderOperationPrompt() {
+  const pending = useFlowStore((state) => state.pendingFolderOperation);
+  const cancelFolderOperation = useFlowStore((state) => state.cancelFolderOperation);
+  const progress = useFlowStore((state) => state.folderOperationProgress);
+  const percent = progress?.totalBytes
+    ? Math.round((progress.copiedBytes / progress.totalBytes) * 100)
+    : null;
+
+  useEffect(() => {
+    if (!pending) return;
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') cancelFolderOperation();
+    };
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [pending, cancelFolderOperation]);
+
+  return (
+    <AnimatePresence>
+      {pending && (
+        <motion.div
+          className="fixed inset-0 z-[70] flex items-center justify-center bg-black/30 p-4"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          onMouseDown={cancelFolderOperation}
+        >
+          {/* Keyed so the name field starts over for every request */}
+          <PromptCard key={`${pending.type}:${'path' in pending ? pending.path : pending.parentPath}`} pending={pending} />
+        </motion.div>
+      )}
+      {/* Only shows up when a move takes a moment, e.g. a copy across drives */}
+      {progress && (
+        <motion.div
+          key="progress"
+          initial={{ opacity: 0, y: 12 }}
+          animate={{ opacity: 1, y: 0, transition: { delay: 0.4 } }}
+          exit={{ opacity: 0 }}
+          className="fixed bottom-6 left-1/2 z-[70] w-80 -translate-x-1/2 rounded-2xl border border-[var(--color-border)] bg-[var(--color-surface)] px-4 py-3 text-sm text-[var(--color-text)] shadow-2xl"
+          role="status"
+        >
+          <div className="flex justify-between gap-2">
+            <span className="truncate">{progress.label}…</span>
+            {percent !== null && <span className="text-[var(--color-text-muted)]">{percent}%</span>}
+          </div>
+          <div className="mt-2 h-1.5 overflow-hidden rounded-full bg-[var(--color-surface-alt)]">
+            <div
+              className={`h-full rounded-full bg-[var(--color-accent)] transition-all ${percent === null ? 'w-1/3 animate-pulse' : ''}`}
+              style={percent !== null ? { width: `${percent}%` } : undefined}
+            />
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
+
+function PromptCard({ pending }: { pending: PendingFolderOperation }) {
+  const confirmFolderOperation = useFlowStore((state) => state.confirmFolderOperation);
+  const cancelFolderOperation = useFlowStore((state) => state.cancelFolderOperation);
+  const [name, setName] = useState(pending.name);
+
+  const needsName = pending.type === 'create' || pending.type === 'rename';
+  const trimmedName = name.trim();
+  const canConfirm = !needsName || (trimmedName !== '' && !(pending.type === 'rename' && trimmedName === getPathName(pending.path)));
+
+  const handleConfirm = (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!canConfirm) return;
+    confirmFolderOperation(needsName ? trimmedName : undefined);
+  };
+
+  return (
+    <motion.form
+      onSubmit={handleConfirm}
+      onMouseDown={(e) => e.stopPropagation()}
+      initial={{ y: 12 }}
+      animate={{ y: 0 }}
+      className="w-96 rounded-2xl border border-[var(--color-border)] bg-[var(--color-surface)] p-4 text-sm text-[var(--color-text)] shadow-2xl"
+    >
+      {pending.type === 'create' && (
+        <p>
+          New folder in{' '}
+          <span className="break-all font-semibold">{pending.parentPath}</span>
+        </p>
+      )}
+      {pending.type === 'rename' && (
+        <p>
+          Rename <span className="break-all font-semibold">{pending.path}</span> on disk
+        </p>
+      )}
+      {pending.type === 'move' && (
+        <>
+          <p>
+            Move <span className="font-semibold">{pending.name}</span> into{' '}
+            <span className="font-semibold">{getPathName(pending.targetPath)}</span> on disk?
+          </p>
+          <p className="mt-1 break-all text-xs text-[var(--color-text-muted)]">
+            {pending.path} → {pending.targetPath}
+          </p>
+        </>
+      )}
+      {pending.type === 'trash' && (
+        <>
+          <p>
+            Move <span className="font-semibold">{pending.name}</span> and everything in it to the trash?
+          </p>
+          <p className="mt-1 break-all text-xs text-[var(--color-text-muted)]">{pending.path}</p>
+        </>
+      )}
+
+      {needsName && (
+        <input
+          autoFocus
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onFocus={(e) => e.target.select()}
+          className="mt-3 w-full rounded-lg border border-[var(--color-border)] bg-[var(--color-surface-alt)] px-3 py-2 outline-none focus:border-[var(--color-accent)]"
+          placeholder="Folder name"
+        />
+      )}
+      <p className="mt-2 text-xs text-[var(--color-text-muted)]">
+        This changes the folder on disk. You can undo it from the toolbar.
+      </p>
+
+      <div className="mt-4 flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={cancelFolderOperation}
+          className="px-3 py-1 text-[var(--color-text-muted)] hover:text-[var(--color-text)]"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          autoFocus={!needsName}
+          disabled={!canConfirm}
+          className={`rounded-full px-3 py-1 font-medium disabled:opacity-50 ${pending.type === 'trash'
+            ? 'bg-rose-500 text-white hover:bg-rose-600'
+            : 'bg-[var(--color-accent)] text-[#031527] hover:bg-[var(--color-accent-strong)]'
+            }`}
+        >
+          {{ create: 'Create', rename: 'Rename', move: 'Move', trash: 'Move to trash' }[pending.type]}
+        </button>
+      </div>
+    </motion.form>
+  );
+}
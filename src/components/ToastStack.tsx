@@ -0,0 +1,45 @@
+'use client';
+
+import React from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { AlertTriangle, Info, X } from 'lucide-react';
+import { useFlowStore } from '@/store/useFlowStore';
+
+export default function ToastStack() {
+  const toasts = useFlowStore((state) => state.toasts);
+  const dismissToast = useFlowStore((state) => state.dismissToast);
+
+  return (
+    <div className="pointer-events-none fixed bottom-20 right-4 z-[60] flex w-80 flex-col gap-2">
+      <AnimatePresence>
+        {toasts.map((toast) => (
+          <motion.div
+            key={toast.id}
+            initial={{ opacity: 0, y: 12 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, x: 40 }}
+            className={`pointer-events-auto flex items-start gap-2 rounded-2xl border px-3 py-2.5 text-sm shadow-2xl ${toast.tone === 'error'
+              ? 'border-rose-300 bg-rose-50 text-rose-900'
+              : 'border-[var(--color-border)] bg-[var(--color-surface)] text-[var(--color-text)]'
+              }`}
+            role={toast.tone === 'error' ? 'alert' : 'status'}
+          >
+            {toast.tone === 'error' ? (
+              <AlertTriangle className="mt-0.5 h-4 w-4 flex-shrink-0" />
+            ) : (
+              <Info className="mt-0.5 h-4 w-4 flex-shrink-0" />
+            )}
+            <p className="flex-1 break-words">{toast.message}</p>
+            <button
+              onClick={() => dismissToast(toast.id)}
+              className="flex-shrink-0 opacity-60 hover:opacity-100"
+              title="Dismiss"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </motion.div>
+        ))}
+      </AnimatePresence>
+    </div>
+  );
+}
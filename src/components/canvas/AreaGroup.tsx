@@ -11,8 +11,11 @@ interface AreaGroupProps {
 
 export default function AreaGroup({ area, onZoomToArea }: AreaGroupProps) {
   return (
+    // No layout animation: the bounds follow the nodes frame by frame while
+    // they glide to a new layout
     <motion.div
-      layout
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
       className="absolute rounded-[32px] border border-[var(--color-border)]/60 bg-[var(--color-highlight)]/40 shadow-[0_25px_50px_-12px_rgba(2,6,23,0.6)] pointer-events-none"
       style={{
         left: `${area.position.x}px`,
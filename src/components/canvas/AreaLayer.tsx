@@ -0,0 +1,50 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { createPortal } from 'react-dom';
+import { Node, useStore } from 'reactflow';
+import { useFlowStore } from '@/store/useFlowStore';
+import { getLiveAreas } from '@/lib/areaUtils';
+import { convertAllNodes, mergeRenderedNodes } from '@/lib/utils';
+import { Area, FolderNodeVisualData } from '@/lib/types';
+import AreaGroup from './AreaGroup';
+
+interface AreaLayerProps {
+  nodes: Node<FolderNodeVisualData>[];
+  onZoomToArea: (area: Area) => void;
+}
+
+// Draw the areas behind the nodes. Rendered inside ReactFlow and portaled
+// into its viewport, so the areas pan and zoom with the canvas and stay above
+// the pane for the zoom buttons to be clickable.
+export default function AreaLayer({ nodes, onZoomToArea }: AreaLayerProps) {
+  const areas = useFlowStore((state) => state.areas);
+  const treeNodes = useFlowStore((state) => state.nodes);
+  const highlightedNodeIds = useFlowStore((state) => state.highlightedNodeIds);
+  const pageSize = useFlowStore((state) => state.childPageSize);
+  const domNode = useStore((state) => state.domNode);
+  const viewport = domNode?.querySelector('.react-flow__viewport');
+
+  // Folders culled off-screen still count, at their stored positions
+  const allNodes = useMemo(
+    () =>
+      convertAllNodes(treeNodes, { highlightedNodeIds: new Set(highlightedNodeIds), pageSize }).nodes,
+    [treeNodes, highlightedNodeIds, pageSize]
+  );
+  const liveAreas = useMemo(
+    () => (areas.length > 0 ? getLiveAreas(areas, mergeRenderedNodes(allNodes, nodes)) : []),
+    [areas, allNodes, nodes]
+  );
+
+  if (!viewport || liveAreas.length === 0) return null;
+
+  return createPortal(
+    // Below the edges and nodes, which share the viewport's stacking context
+    <div className="absolute left-0 top-0 -z-10">
+      {liveAreas.map((area) => (
+        <AreaGroup key={area.id} area={area} onZoomToArea={onZoomToArea} />
+      ))}
+    </div>,
+    viewport
+  );
+}
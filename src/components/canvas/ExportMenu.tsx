@@ -0,0 +1,205 @@
+'use client';
+
+import React, { useRef, useState, useEffect } from 'react';
+import { Node as FlowNode, Panel, useReactFlow, useStore } from 'reactflow';
+import { Download } from 'lucide-react';
+import { useFlowStore } from '@/store/useFlowStore';
+import { convertAllNodes, downloadFile, mergeRenderedNodes, toFileName } from '@/lib/utils';
+import { getGraphBounds, readImageTheme, renderGraphSvg, svgToPng, ImageRect } from '@/lib/imageExport';
+import { exportTree, TreeExportFormat } from '@/lib/treeExport';
+import { getLiveAreas } from '@/lib/areaUtils';
+import { FolderNodeVisualData } from '@/lib/types';
+
+const PNG_SCALES = [1, 2, 3];
+const TEXT_FORMATS: [TreeExportFormat, string][] = [
+  ['markdown', 'Markdown'],
+  ['opml', 'OPML'],
+  ['mermaid', 'Mermaid'],
+  ['dot', 'DOT'],
+];
+
+// Export the canvas as an image or the folder tree as text; rendered inside
+// ReactFlow to reach its nodes and viewport
+export default function ExportMenu() {
+  const { getNodes, getViewport } = useReactFlow<FolderNodeVisualData>();
+  const paneWidth = useStore((state) => state.width);
+  const paneHeight = useStore((state) => state.height);
+  const storeNodes = useFlowStore((state) => state.nodes);
+  const areas = useFlowStore((state) => state.areas);
+  const highlightedNodeIds = useFlowStore((state) => state.highlightedNodeIds);
+  const childPageSize = useFlowStore((state) => state.childPageSize);
+  const savedLayouts = useFlowStore((state) => state.savedLayouts);
+  const activeLayoutId = useFlowStore((state) => state.activeLayoutId);
+  const pushToast = useFlowStore((state) => state.pushToast);
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [scope, setScope] = useState<'graph' | 'viewport'>('graph');
+  const [scale, setScale] = useState(2);
+  const [expandedOnly, setExpandedOnly] = useState(true);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const layoutName = savedLayouts.find((layout) => layout.id === activeLayoutId)?.name;
+
+  const handleTextExport = (format: TreeExportFormat) => {
+    if (storeNodes.length === 0) {
+      pushToast('Add a folder before exporting', 'info');
+      return;
+    }
+    setIsOpen(false);
+    const { content, extension, mimeType } = exportTree(format, storeNodes, areas, {
+      expandedOnly,
+      title: layoutName,
+    });
+    downloadFile(`${toFileName(layoutName ?? 'folder-map')}.${extension}`, content, mimeType);
+  };
+
+  // The whole graph, including subtrees the canvas culled because they are off-screen
+  const getGraph = () => {
+    const { nodes, edges } = convertAllNodes(storeNodes, {
+      highlightedNodeIds: new Set(highlightedNodeIds),
+      pageSize: childPageSize,
+    });
+    return { nodes: mergeRenderedNodes(nodes, getNodes()), edges };
+  };
+
+  const getBounds = (nodes: FlowNode<FolderNodeVisualData>[]): ImageRect | null => {
+    if (scope === 'graph') {
+      return getGraphBounds(nodes, getLiveAreas(areas, nodes));
+    }
+    // The visible part of the pane, in flow coordinates
+    const { x, y, zoom } = getViewport();
+    return { x: -x / zoom, y: -y / zoom, width: paneWidth / zoom, height: paneHeight / zoom };
+  };
+
+  const handleImageExport = async (format: 'svg' | 'png') => {
+    const { nodes, edges } = getGraph();
+    const bounds = getBounds(nodes);
+    if (!bounds) {
+      pushToast('Add a folder before exporting an image', 'info');
+      return;
+    }
+    setIsOpen(false);
+
+    const svg = renderGraphSvg({
+      nodes,
+      edges,
+      // Areas as drawn on the canvas, with nested areas last
+      areas: getLiveAreas(areas, nodes),
+      bounds,
+      theme: readImageTheme(),
+    });
+    const fileName = toFileName(layoutName ?? 'folder-map');
+
+    if (format === 'svg') {
+      downloadFile(`${fileName}.svg`, svg, 'image/svg+xml');
+      return;
+    }
+    try {
+      const png = await svgToPng(svg, bounds.width, bounds.height, scale);
+      downloadFile(`${fileName}@${scale}x.png`, png, 'image/png');
+    } catch {
+      pushToast('Failed to render the PNG image');
+    }
+  };
+
+  return (
+    <Panel position="top-right">
+      <div className="relative" ref={menuRef}>
+        <button
+          onClick={() => setIsOpen((open) => !open)}
+          className="inline-flex items-center gap-1 rounded-full border border-[var(--color-border)] bg-[var(--color-surface)] px-3 py-1.5 text-xs text-[var(--color-text)] shadow hover:border-[var(--color-accent)]"
+          title="Export as image or text"
+        >
+          <Download className="h-4 w-4" />
+          Export
+        </button>
+        {isOpen && (
+          <div className="absolute right-0 top-full mt-2 w-56 rounded-2xl border border-[var(--color-border)] bg-[var(--color-surface)] p-3 text-xs text-[var(--color-text)] shadow-2xl">
+            <p className="font-semibold uppercase tracking-widest text-[var(--color-text-muted)]">Export image</p>
+            <div className="mt-2 flex gap-1">
+              {([['graph', 'Whole graph'], ['viewport', 'Visible area']] as const).map(([value, label]) => (
+                <button
+                  key={value}
+                  onClick={() => setScope(value)}
+                  className={`flex-1 rounded-full px-2 py-1 ${scope === value
+                    ? 'bg-[var(--color-accent)] text-[#031527]'
+                    : 'bg-[var(--color-surface-alt)] hover:text-[var(--color-accent)]'
+                    }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <div className="mt-2 flex items-center gap-1">
+              <span className="text-[var(--color-text-muted)]">PNG scale</span>
+              {PNG_SCALES.map((value) => (
+                <button
+                  key={value}
+                  onClick={() => setScale(value)}
+                  className={`rounded-full px-2 py-0.5 ${scale === value
+                    ? 'bg-[var(--color-accent)] text-[#031527]'
+                    : 'bg-[var(--color-surface-alt)] hover:text-[var(--color-accent)]'
+                    }`}
+                >
+                  {value}×
+                </button>
+              ))}
+            </div>
+            <div className="mt-3 flex justify-end gap-2">
+              <button
+                onClick={() => handleImageExport('svg')}
+                className="rounded-full border border-[var(--color-border)] px-3 py-1 hover:border-[var(--color-accent)]"
+              >
+                SVG
+              </button>
+              <button
+                onClick={() => handleImageExport('png')}
+                className="rounded-full bg-[var(--color-accent)] px-3 py-1 font-medium text-[#031527] hover:bg-[var(--color-accent-strong)]"
+              >
+                PNG
+              </button>
+            </div>
+
+            <p className="mt-4 font-semibold uppercase tracking-widest text-[var(--color-text-muted)]">Export tree as text</p>
+            <div className="mt-2 flex gap-1">
+              {([[true, 'Expanded only'], [false, 'Whole loaded tree']] as const).map(([value, label]) => (
+                <button
+                  key={label}
+                  onClick={() => setExpandedOnly(value)}
+                  className={`flex-1 rounded-full px-2 py-1 ${expandedOnly === value
+                    ? 'bg-[var(--color-accent)] text-[#031527]'
+                    : 'bg-[var(--color-surface-alt)] hover:text-[var(--color-accent)]'
+                    }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <div className="mt-3 flex flex-wrap justify-end gap-2">
+              {TEXT_FORMATS.map(([format, label]) => (
+                <button
+                  key={format}
+                  onClick={() => handleTextExport(format)}
+                  className="rounded-full border border-[var(--color-border)] px-3 py-1 hover:border-[var(--color-accent)]"
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </Panel>
+  );
+}
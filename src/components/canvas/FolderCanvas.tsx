@@ -20,17 +20,35 @@ import ReactFlow, {
   Viewport,
   ConnectionLineType,
   Position,
+  XYPosition,
+  ReactFlowState,
+  useStore,
 } from 'reactflow';
 import 'reactflow/dist/style.css';
-import dagre from 'dagre';
 import { useFlowStore } from '@/store/useFlowStore';
 import { Area } from '@/lib/types';
-import { convertToReactFlowNodes } from '@/lib/utils';
+import {
+  convertAllNodes,
+  convertToReactFlowNodes,
+  findNodeByIdRecursive,
+  getParentPath,
+  isSameOrAncestorPath,
+  mergeRenderedNodes,
+  Rect,
+} from '@/lib/utils';
+import { calculateAreaBounds } from '@/lib/areaUtils';
+import { cancelTreeLayout, requestTreeLayout } from '@/lib/treeLayoutClient';
 import FolderNodeComponent from './FolderNode';
+import HiddenNodesStub from './HiddenNodesStub';
+import ShowMoreStub from './ShowMoreStub';
 import AnimatedDashedEdge from './AnimatedDashedEdge';
+import AreaLayer from './AreaLayer';
+import ExportMenu from './ExportMenu';
 
 const nodeTypes: NodeTypes = {
   folderNode: FolderNodeComponent,
+  hiddenStub: HiddenNodesStub,
+  moreStub: ShowMoreStub,
 };
 
 const edgeTypes: EdgeTypes = {
@@ -43,22 +61,48 @@ interface FolderCanvasProps {
 
 const nodeWidth = 140;
 const nodeHeight = 50;
+// How long nodes take to glide to a new layout
+const LAYOUT_ANIMATION_MS = 300;
+// Subtrees outside the viewport, plus a screen of margin on each side, are
+// culled. The edges snap to this grid (in flow units) so panning only
+// re-converts the tree once it has moved some way.
+const CULL_GRID = 1000;
+
+const selectCullArea = (state: ReactFlowState): string => {
+  const [x, y, zoom] = state.transform;
+  if (!state.width || !state.height) return '';
+  const width = state.width / zoom;
+  const height = state.height / zoom;
+  const left = Math.floor((-x / zoom - width) / CULL_GRID) * CULL_GRID;
+  const top = Math.floor((-y / zoom - height) / CULL_GRID) * CULL_GRID;
+  const right = Math.ceil((-x / zoom + 2 * width) / CULL_GRID) * CULL_GRID;
+  const bottom = Math.ceil((-y / zoom + 2 * height) / CULL_GRID) * CULL_GRID;
+  return `${left},${top},${right},${bottom}`;
+};
 
 function FlowCanvas({ className }: FolderCanvasProps) {
   const {
     nodes: storeNodes,
     viewMode,
     updateNodePosition,
+    moveNodes,
     setZoom,
     setPan,
     setSelectedAreaId,
     setSelectedNodeId,
     highlightedNodeIds,
+    openNodeFolder,
+    requestFolderOperation,
+    rootFolderIds,
+    demoMode,
+    requestedViewport,
+    consumeRequestedViewport,
+    childPageSize,
   } = useFlowStore();
 
   const [nodes, setNodesState, onNodesChange] = useNodesState([]);
   const [edges, setEdgesState, onEdgesChange] = useEdgesState([]);
-  const { fitView, getNodes } = useReactFlow();
+  const { fitBounds, getNodes, getNode, getZoom, setCenter, setViewport, getIntersectingNodes } = useReactFlow();
   const viewportUpdateTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const previousStoreNodesRef = useRef<string>('');
   const isDraggingRef = useRef(false);
@@ -66,26 +110,28 @@ function FlowCanvas({ className }: FolderCanvasProps) {
   const lastDragNodeRef = useRef<Node | null>(null);
   const justFinishedDragRef = useRef(false);
   const manuallyMovedNodesRef = useRef<Set<string>>(new Set());
+  const pendingFocusNodeIdRef = useRef<string | null>(null);
+  const animationFrameRef = useRef<number | null>(null);
 
   const highlightedSet = useMemo(
     () => new Set(highlightedNodeIds),
     [highlightedNodeIds]
   );
 
-  const isEditable = viewMode === 'edit';
+  // A string, so the canvas only re-renders when the snapped area changes
+  const cullArea = useStore(selectCullArea);
+  const cullViewport = useMemo<Rect | undefined>(() => {
+    if (!cullArea) return undefined;
+    const [left, top, right, bottom] = cullArea.split(',').map(Number);
+    return { x: left, y: top, width: right - left, height: bottom - top };
+  }, [cullArea]);
 
-  const applyTreeLayout = useCallback((nodes: Node[], edges: Edge[], preservePositions = true, fixedNodeIds?: Set<string>) => {
-    if (nodes.length === 0) return nodes;
-    if (edges.length === 0) {
-      return nodes.map((node, index) => ({
-        ...node,
-        position: { x: index * 250, y: 100 },
-        targetPosition: Position.Left,
-        sourcePosition: Position.Right,
-      }));
-    }
+  const isEditable = viewMode === 'edit';
 
-    const nodeMap = new Map(nodes.map(n => [n.id, n]));
+  // Nodes a layout must not move: manually moved ones with their subtrees,
+  // and (with fixedNodeIds) nodes that were already placed with their children
+  const getPreservedNodeIds = useCallback((nodes: Node[], edges: Edge[], fixedNodeIds?: Set<string>) => {
+    const nodeIds = new Set(nodes.map(n => n.id));
     const parentToChildren = new Map<string, string[]>(); // parent -> children
 
     edges.forEach(edge => {
@@ -95,13 +141,10 @@ function FlowCanvas({ className }: FolderCanvasProps) {
       parentToChildren.get(edge.source)!.push(edge.target);
     });
 
-    // Build set of nodes to preserve positions for
     const nodesToPreserve = new Set<string>();
 
     // Add manually moved nodes and their descendants
-    const manuallyMovedWithDescendants = new Set<string>();
     const addDescendants = (nodeId: string) => {
-      manuallyMovedWithDescendants.add(nodeId);
       nodesToPreserve.add(nodeId);
       const children = parentToChildren.get(nodeId) || [];
       children.forEach(childId => {
@@ -117,133 +160,148 @@ function FlowCanvas({ className }: FolderCanvasProps) {
         nodesToPreserve.add(nodeId);
         const existingChildren = parentToChildren.get(nodeId) || [];
         existingChildren.forEach(childId => {
-          if (nodes.find(n => n.id === childId)) {
+          if (nodeIds.has(childId)) {
             nodesToPreserve.add(childId);
           }
         });
       });
     }
 
-    if (preservePositions && nodesToPreserve.size > 0) {
-      const nodesToLayout = nodes.filter(n => !nodesToPreserve.has(n.id));
-      const edgesToLayout = edges.filter(
-        e => !nodesToPreserve.has(e.source) && !nodesToPreserve.has(e.target)
-      );
-
-      if (nodesToLayout.length > 0 && edgesToLayout.length > 0) {
-        const dagreGraph = new dagre.graphlib.Graph();
-        dagreGraph.setDefaultEdgeLabel(() => ({}));
-
-        dagreGraph.setGraph({
-          rankdir: 'LR',
-          align: 'UL',
-          nodesep: 80,
-          ranksep: 60,
-          edgesep: 10,
-          acyclicer: 'greedy',
-          ranker: 'tight-tree',
-        });
-
-        nodesToLayout.forEach((node) => {
-          dagreGraph.setNode(node.id, {
-            width: nodeWidth,
-            height: nodeHeight,
-          });
-        });
-
-        edgesToLayout.forEach((edge) => {
-          dagreGraph.setEdge(edge.source, edge.target);
-        });
-
-        dagre.layout(dagreGraph);
-
-        const layoutedNodes = nodes.map((node) => {
-          if (nodesToPreserve.has(node.id)) {
-            return {
-              ...node,
-              targetPosition: Position.Left,
-              sourcePosition: Position.Right,
-            };
-          }
-
-          const nodeWithPosition = dagreGraph.node(node.id);
-          if (!nodeWithPosition) {
-            return {
-              ...node,
-              targetPosition: Position.Left,
-              sourcePosition: Position.Right,
-            };
-          }
-
-          const x = nodeWithPosition.x - nodeWidth / 2;
-          const y = nodeWithPosition.y - nodeHeight / 2;
-
-          return {
-            ...node,
-            position: { x, y },
-            targetPosition: Position.Left,
-            sourcePosition: Position.Right,
-          };
-        });
+    return nodesToPreserve;
+  }, []);
 
-        return layoutedNodes;
-      }
+  // Glide nodes from where they are to their new positions. Nodes that are
+  // not shown yet start from `origins` (e.g. their parent), or appear at
+  // their target directly.
+  const animateNodesTo = useCallback((
+    targets: Map<string, XYPosition>,
+    onDone?: () => void,
+    origins?: Map<string, XYPosition>
+  ) => {
+    if (animationFrameRef.current !== null) {
+      cancelAnimationFrame(animationFrameRef.current);
     }
-
-    const dagreGraph = new dagre.graphlib.Graph();
-    dagreGraph.setDefaultEdgeLabel(() => ({}));
-
-    const totalNodes = nodes.length;
-    const maxChildren = Math.max(...Array.from(parentToChildren.values()).map(children => children.length), 0);
-
-    const nodesep = totalNodes > 50 ? 100 : totalNodes > 20 ? 80 : 60;
-    const ranksep = maxChildren > 10 ? 80 : maxChildren > 5 ? 60 : 40;
-
-    dagreGraph.setGraph({
-      rankdir: 'LR',
-      align: 'UL',
-      nodesep,
-      ranksep,
-      edgesep: 10,
-      acyclicer: 'greedy',
-      ranker: 'tight-tree',
+    const starts = new Map(origins);
+    getNodes()
+      .filter(node => targets.has(node.id) && !node.hidden)
+      .forEach(node => starts.set(node.id, node.position));
+    const startTime = performance.now();
+
+    const step = (now: number) => {
+      const progress = Math.min((now - startTime) / LAYOUT_ANIMATION_MS, 1);
+      const eased = 1 - Math.pow(1 - progress, 3);
+      setNodesState(nodes => nodes.map(node => {
+        const target = targets.get(node.id);
+        if (!target) return node;
+        const start = starts.get(node.id);
+        const position = start && progress < 1
+          ? { x: start.x + (target.x - start.x) * eased, y: start.y + (target.y - start.y) * eased }
+          : target;
+        return { ...node, position, hidden: false };
+      }));
+      animationFrameRef.current = progress < 1 ? requestAnimationFrame(step) : null;
+      if (progress === 1) onDone?.();
+    };
+    animationFrameRef.current = requestAnimationFrame(step);
+  }, [getNodes, setNodesState]);
+
+  // Lay out what is on the canvas with the current algorithm: everything, or
+  // the subtree below rootId, which stays where it is. A label records the
+  // result as an undoable edit.
+  const runLayout = useCallback(async (
+    rootId: string | null,
+    { preserveManual, label }: { preserveManual: boolean; label?: string }
+  ) => {
+    const { layoutMode, layoutSpacing, nodes: treeNodes, highlightedNodeIds: highlightedIds, childPageSize: pageSize } =
+      useFlowStore.getState();
+    const algorithm = layoutMode === 'freeflow' ? 'tree' : layoutMode;
+    // The whole tree, including subtrees culled because they are off-screen
+    const { nodes: allNodes, edges: visibleEdges } = convertAllNodes(treeNodes, {
+      highlightedNodeIds: new Set(highlightedIds),
+      pageSize,
     });
+    const visibleNodes = mergeRenderedNodes(allNodes, getNodes()).filter(node => !node.hidden);
 
-    nodes.forEach((node) => {
-      dagreGraph.setNode(node.id, {
-        width: nodeWidth,
-        height: nodeHeight,
-      });
+    const childrenOf = new Map<string, string[]>();
+    visibleEdges.forEach(edge => {
+      childrenOf.set(edge.source, [...(childrenOf.get(edge.source) ?? []), edge.target]);
     });
-
-    edges.forEach((edge) => {
-      dagreGraph.setEdge(edge.source, edge.target);
+    const scopeIds = new Set<string>();
+    const collect = (nodeId: string) => {
+      scopeIds.add(nodeId);
+      (childrenOf.get(nodeId) ?? []).forEach(collect);
+    };
+    if (rootId) {
+      collect(rootId);
+    } else {
+      visibleNodes.forEach(node => scopeIds.add(node.id));
+    }
+    const scope = visibleNodes.filter(node => scopeIds.has(node.id));
+    const scopeEdges = visibleEdges.filter(edge => scopeIds.has(edge.source) && scopeIds.has(edge.target));
+    if (scope.length === 0) return;
+
+    const preservedIds = preserveManual ? getPreservedNodeIds(scope, scopeEdges) : new Set<string>();
+    const positions = await requestTreeLayout({
+      algorithm,
+      spacing: layoutSpacing[algorithm],
+      nodes: scope.map(node => ({ id: node.id })),
+      edges: scopeEdges.map(edge => ({ source: edge.source, target: edge.target })),
+      preservePositions: preserveManual,
+      preservedIds: [...preservedIds],
+      nodeSize: { width: nodeWidth, height: nodeHeight },
     });
+    if (!positions) return;
+
+    // Keep the subtree's folder (or the first root) in place
+    const targetIds = new Set(scopeEdges.map(edge => edge.target));
+    const anchor = scope.find(node => (rootId ? node.id === rootId : !targetIds.has(node.id)) && positions[node.id]);
+    const offset = anchor
+      ? { x: anchor.position.x - positions[anchor.id].x, y: anchor.position.y - positions[anchor.id].y }
+      : { x: 0, y: 0 };
+    const targets = new Map<string, XYPosition>(
+      Object.entries(positions).map(([nodeId, position]) => [
+        nodeId,
+        { x: position.x + offset.x, y: position.y + offset.y },
+      ])
+    );
 
-    dagre.layout(dagreGraph);
-
-    const layoutedNodes = nodes.map((node) => {
-      const nodeWithPosition = dagreGraph.node(node.id);
-      if (!nodeWithPosition) {
-        return {
-          ...node,
-          targetPosition: Position.Left,
-          sourcePosition: Position.Right,
-        };
+    if (!preserveManual) {
+      scopeIds.forEach(nodeId => manuallyMovedNodesRef.current.delete(nodeId));
+    }
+    const folderIds = new Set(scope.filter(node => node.type === 'folderNode').map(node => node.id));
+    animateNodesTo(targets, () => {
+      const folderTargets = new Map([...targets].filter(([nodeId]) => folderIds.has(nodeId)));
+      if (label) {
+        moveNodes(folderTargets, label);
+      } else {
+        folderTargets.forEach((position, nodeId) => updateNodePosition(nodeId, position));
       }
+    });
+  }, [getNodes, getPreservedNodeIds, animateNodesTo, moveNodes, updateNodePosition]);
 
-      const x = nodeWithPosition.x - nodeWidth / 2;
-      const y = nodeWithPosition.y - nodeHeight / 2;
+  // Re-layout requests from the toolbar and the node context menu
+  useEffect(() => {
+    const handleRelayout = (event: CustomEvent<{ nodeId: string | null }>) => {
+      const { nodeId } = event.detail;
+      const name = nodeId ? getNode(nodeId)?.data?.label : null;
+      void runLayout(nodeId, {
+        preserveManual: false,
+        label: name ? `re-layout ${name}` : 're-layout',
+      });
+    };
 
-      return {
-        ...node,
-        position: { x, y },
-        targetPosition: Position.Left,
-        sourcePosition: Position.Right,
-      };
-    });
+    window.addEventListener('relayout', handleRelayout as EventListener);
+    return () => {
+      window.removeEventListener('relayout', handleRelayout as EventListener);
+    };
+  }, [runLayout, getNode]);
 
-    return layoutedNodes;
+  // Drop layouts and animations still running when the canvas goes away
+  useEffect(() => () => {
+    cancelTreeLayout();
+    if (animationFrameRef.current !== null) {
+      cancelAnimationFrame(animationFrameRef.current);
+    }
   }, []);
 
   useEffect(() => {
@@ -254,12 +312,23 @@ function FlowCanvas({ className }: FolderCanvasProps) {
       return;
     }
 
+    // Flatten the whole tree so lazily loaded children deep in the tree
+    // also count as a structural change
     const createNodeSignature = (nodes: typeof storeNodes): string => {
-      return JSON.stringify(nodes.map(n => ({
-        id: n.id,
-        children: n.children?.length || 0,
-        expanded: n.expanded
-      })));
+      const entries: Array<{ id: string; children: number; expanded?: boolean; shown?: number }> = [];
+      const collect = (list: typeof storeNodes) => {
+        list.forEach(n => {
+          entries.push({
+            id: n.id,
+            children: n.children?.length || 0,
+            expanded: n.expanded,
+            shown: n.shownChildren
+          });
+          if (n.children) collect(n.children);
+        });
+      };
+      collect(nodes);
+      return JSON.stringify(entries);
     };
     const nodeSignature = createNodeSignature(storeNodes);
     const structureChanged = previousStoreNodesRef.current !== nodeSignature;
@@ -311,25 +380,24 @@ function FlowCanvas({ className }: FolderCanvasProps) {
 
     const { nodes: rfNodes, edges: rfEdges } = convertToReactFlowNodes(
       storeNodes,
-      { highlightedNodeIds: highlightedSet }
+      { highlightedNodeIds: highlightedSet, pageSize: childPageSize, viewport: cullViewport }
     );
 
-    const findStoreNode = (nodeId: string, verifyPath?: string): typeof storeNodes[0] | undefined => {
-      const findInTree = (nodes: typeof storeNodes): typeof storeNodes[0] | undefined => {
-        for (const node of nodes) {
-          if (node.id === nodeId) {
-            if (!verifyPath || node.path === verifyPath) {
-              return node;
-            }
-          }
-          if (node.children) {
-            const found = findInTree(node.children);
-            if (found) return found;
-          }
+    // Indexed once per run; looking each node up in the tree gets slow on large trees
+    const storeNodesById = new Map<string, typeof storeNodes[0]>();
+    const indexStoreNodes = (nodes: typeof storeNodes) => {
+      nodes.forEach(node => {
+        if (!storeNodesById.has(node.id)) {
+          storeNodesById.set(node.id, node);
         }
-        return undefined;
-      };
-      return findInTree(storeNodes);
+        if (node.children) indexStoreNodes(node.children);
+      });
+    };
+    indexStoreNodes(storeNodes);
+
+    const findStoreNode = (nodeId: string, verifyPath?: string): typeof storeNodes[0] | undefined => {
+      const node = storeNodesById.get(nodeId);
+      return node && (!verifyPath || node.path === verifyPath) ? node : undefined;
     };
 
     const nodesWithStorePositions = rfNodes.map(rfNode => {
@@ -406,6 +474,8 @@ function FlowCanvas({ className }: FolderCanvasProps) {
     const currentNodeMap = new Map(currentReactFlowNodes.map(n => [n.id, n]));
 
     if (isJustExpandCollapse) {
+      // Placed right here; an older layout still running would move them again
+      cancelTreeLayout();
       let nodesNeedingPosition = 0;
       const positionedNodes = nodesWithStorePositions.map(node => {
         const storeNode = findStoreNode(node.id, node.data?.path);
@@ -510,55 +580,123 @@ function FlowCanvas({ className }: FolderCanvasProps) {
       });
 
       previousStoreNodesRef.current = nodeSignature;
+
+      // Layout algorithms keep the canvas arranged; freeflow leaves it be
+      if (useFlowStore.getState().layoutMode !== 'freeflow') {
+        requestAnimationFrame(() => {
+          void runLayout(null, { preserveManual: true });
+        });
+      }
     } else if (needsLayout) {
       const isLargeTree = nodesWithStorePositions.length > 20;
       const preservePositions = !checkIfStacked(nodesWithStorePositions) && !structureChanged && !isLargeTree;
 
       const currentReactFlowNodes = getNodes();
       const currentNodeMap = new Map(currentReactFlowNodes.map(n => [n.id, n]));
+      const isOnCanvas = (nodeId: string) => {
+        const position = currentNodeMap.get(nodeId)?.position;
+        return !!position && (position.x !== 0 || position.y !== 0);
+      };
 
-      const layoutedNodes = applyTreeLayout(
-        nodesWithStorePositions,
-        rfEdges,
-        preservePositions,
-        structureChanged ? fixedNodeIds : undefined
-      );
-
-      const finalNodes = layoutedNodes.map(node => {
-        const currentNode = currentNodeMap.get(node.id);
-        if (currentNode && currentNode.position && (currentNode.position.x !== 0 || currentNode.position.y !== 0)) {
-          return {
-            ...node,
-            position: currentNode.position,
-          };
-        }
-        return node;
-      });
-
-      setNodesState(finalNodes);
+      // Nodes already on the canvas stay where they are until the layout
+      // moves them; the others wait, hidden, for it
+      setNodesState(nodesWithStorePositions.map(node => ({
+        ...node,
+        position: isOnCanvas(node.id) ? currentNodeMap.get(node.id)!.position : node.position,
+        hidden: !isOnCanvas(node.id),
+        targetPosition: Position.Left,
+        sourcePosition: Position.Right,
+      })));
       setEdgesState(rfEdges);
 
-      finalNodes.forEach((node) => {
-        const currentNode = currentNodeMap.get(node.id);
-        if (!currentNode) {
-          updateNodePosition(node.id, node.position);
-        }
-      });
-
       previousStoreNodesRef.current = nodeSignature;
 
-      if (isInitialLoad && !preservePositions) {
-        requestAnimationFrame(() => {
-          setTimeout(() => {
-            fitView({ padding: 0.2, duration: 300 });
-          }, 150);
+      // A layout that brings its own viewport is shown as it was exported
+      const keepsViewport = useFlowStore.getState().requestedViewport !== null;
+      const preservedIds = preservePositions
+        ? getPreservedNodeIds(nodesWithStorePositions, rfEdges, structureChanged ? fixedNodeIds : undefined)
+        : new Set<string>();
+
+      const { layoutMode, layoutSpacing } = useFlowStore.getState();
+      const algorithm = layoutMode === 'freeflow' ? 'tree' : layoutMode;
+      void requestTreeLayout({
+        algorithm,
+        spacing: layoutSpacing[algorithm],
+        nodes: nodesWithStorePositions.map(node => ({ id: node.id })),
+        edges: rfEdges.map(edge => ({ source: edge.source, target: edge.target })),
+        preservePositions,
+        preservedIds: [...preservedIds],
+        nodeSize: { width: nodeWidth, height: nodeHeight },
+      }).then(positions => {
+        // Replaced by a newer layout
+        if (!positions) return;
+
+        // Nodes on the canvas glide from where they are, new ones grow out
+        // of their parent. Preserved nodes are not in the result and stay.
+        const parentOf = new Map(rfEdges.map(edge => [edge.target, edge.source]));
+        const targets = new Map<string, XYPosition>();
+        const origins = new Map<string, XYPosition>();
+        const movedIds: string[] = [];
+        nodesWithStorePositions.forEach(node => {
+          if (isOnCanvas(node.id)) {
+            if (!positions[node.id]) return;
+            targets.set(node.id, positions[node.id]);
+            if (node.type === 'folderNode') movedIds.push(node.id);
+            return;
+          }
+          const target = positions[node.id] ?? node.position;
+          targets.set(node.id, target);
+          const parentId = parentOf.get(node.id);
+          if (parentId && isOnCanvas(parentId)) {
+            origins.set(node.id, currentNodeMap.get(parentId)!.position);
+          }
+          if (!currentNodeMap.has(node.id)) {
+            updateNodePosition(node.id, target);
+          }
         });
-      }
+        animateNodesTo(targets, () => {
+          movedIds.forEach(nodeId => updateNodePosition(nodeId, targets.get(nodeId)!));
+        }, origins);
+
+        if (isInitialLoad && !preservePositions && !keepsViewport && targets.size > 0) {
+          // Fit the layout itself; the canvas culls what is off-screen before this runs
+          const xs = [...targets.values()].map(position => position.x);
+          const ys = [...targets.values()].map(position => position.y);
+          const bounds = {
+            x: Math.min(...xs),
+            y: Math.min(...ys),
+            width: Math.max(...xs) - Math.min(...xs) + nodeWidth,
+            height: Math.max(...ys) - Math.min(...ys) + nodeHeight,
+          };
+          requestAnimationFrame(() => {
+            setTimeout(() => {
+              fitBounds(bounds, { padding: 0.2, duration: 300 });
+            }, 150);
+          });
+        }
+      });
     } else {
-      setNodesState(nodesWithStorePositions);
+      // Also runs when panning culls or brings in subtrees: keep the
+      // selection, and where a drag has put the nodes
+      setNodesState(nodesWithStorePositions.map(node => {
+        const currentNode = currentNodeMap.get(node.id);
+        if (!currentNode) return node;
+        return {
+          ...node,
+          position: isDraggingRef.current ? currentNode.position : node.position,
+          selected: currentNode.selected,
+        };
+      }));
       setEdgesState(rfEdges);
     }
-  }, [storeNodes, highlightedSet, setNodesState, setEdgesState, applyTreeLayout, updateNodePosition, fitView, getNodes]);
+  }, [storeNodes, highlightedSet, childPageSize, cullViewport, setNodesState, setEdgesState, getPreservedNodeIds, animateNodesTo, runLayout, updateNodePosition, fitBounds, getNodes]);
+
+  // Restore the viewport saved with a loaded layout
+  useEffect(() => {
+    if (!requestedViewport) return;
+    setViewport(requestedViewport, { duration: 300 });
+    consumeRequestedViewport();
+  }, [requestedViewport, setViewport, consumeRequestedViewport]);
 
   const onNodeDrag = useCallback(
     (_: React.MouseEvent, node: Node) => {
@@ -583,13 +721,59 @@ function FlowCanvas({ className }: FolderCanvasProps) {
     [nodes, isEditable]
   );
 
+  // A folder dropped onto another folder can be moved into it on disk
+  const findDropTarget = useCallback(
+    (node: Node): Node | null => {
+      const sourcePath: string | undefined = node.data?.path;
+      const isLocal = (candidate: Node) => (candidate.data?.connector ?? 'local-fs') === 'local-fs';
+      if (demoMode || !sourcePath || !isLocal(node) || rootFolderIds.has(node.id)) {
+        return null;
+      }
+
+      return getIntersectingNodes(node).find((candidate) =>
+        candidate.id !== node.id &&
+        candidate.type === 'folderNode' &&
+        isLocal(candidate) &&
+        !candidate.data?.isMissing &&
+        !isSameOrAncestorPath(sourcePath, candidate.data.path) &&
+        getParentPath(sourcePath) !== candidate.data.path
+      ) ?? null;
+    },
+    [demoMode, rootFolderIds, getIntersectingNodes]
+  );
+
   const onNodeDragStop = useCallback(
-    () => {
+    (_: React.MouseEvent, node: Node) => {
       if (!isEditable) return;
 
       justFinishedDragRef.current = true;
       isDraggingRef.current = false;
 
+      const dropTarget = dragStartPositionsRef.current.size <= 1 ? findDropTarget(node) : null;
+      if (dropTarget) {
+        // Put the node back; it only moves once the move on disk is confirmed
+        const startPosition = dragStartPositionsRef.current.get(node.id);
+        if (startPosition) {
+          setNodesState((current) =>
+            current.map((n) => (n.id === node.id ? { ...n, position: startPosition } : n))
+          );
+        }
+        requestFolderOperation({
+          type: 'move',
+          nodeId: node.id,
+          path: node.data.path,
+          name: node.data.label,
+          targetPath: dropTarget.data.path,
+        });
+
+        setTimeout(() => {
+          justFinishedDragRef.current = false;
+        }, 200);
+        dragStartPositionsRef.current.clear();
+        lastDragNodeRef.current = null;
+        return;
+      }
+
       requestAnimationFrame(() => {
         const currentNodes = getNodes();
 
@@ -603,6 +787,8 @@ function FlowCanvas({ className }: FolderCanvasProps) {
           };
           flatten(storeNodes);
 
+          // Everything dragged together is one undo step
+          const moved = new Map<string, { x: number; y: number }>();
           currentNodes.forEach(curr => {
             const stored = storedPositions.get(curr.id);
             const currPath = curr.data?.path;
@@ -616,14 +802,17 @@ function FlowCanvas({ className }: FolderCanvasProps) {
               const dx = Math.abs(curr.position.x - stored.x);
               const dy = Math.abs(curr.position.y - stored.y);
               if (dx > 0.5 || dy > 0.5) {
-                updateNodePosition(curr.id, curr.position);
+                moved.set(curr.id, curr.position);
                 manuallyMovedNodesRef.current.add(curr.id);
               }
             } else {
-              updateNodePosition(curr.id, curr.position);
+              moved.set(curr.id, curr.position);
               manuallyMovedNodesRef.current.add(curr.id);
             }
           });
+          if (moved.size > 0) {
+            moveNodes(moved);
+          }
 
           setTimeout(() => {
             justFinishedDragRef.current = false;
@@ -634,11 +823,12 @@ function FlowCanvas({ className }: FolderCanvasProps) {
         }, 10);
       });
     },
-    [isEditable, updateNodePosition, getNodes, storeNodes]
+    [isEditable, moveNodes, getNodes, storeNodes, findDropTarget, setNodesState, requestFolderOperation]
   );
 
   const onNodeClick = useCallback(
     (_: React.MouseEvent, node: Node) => {
+      if (node.type !== 'folderNode') return;
       setSelectedNodeId(node.id);
     },
     [setSelectedNodeId]
@@ -653,13 +843,9 @@ function FlowCanvas({ className }: FolderCanvasProps) {
       const folderPath = node.data?.path;
       if (!folderPath) return;
 
-      fetch('http://localhost:3001/open-folder', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ path: folderPath }),
-      }).catch(() => { });
+      openNodeFolder(folderPath);
     },
-    [viewMode]
+    [viewMode, openNodeFolder]
   );
 
   // Handle connection creation
@@ -705,16 +891,17 @@ function FlowCanvas({ className }: FolderCanvasProps) {
       const areaNodeIds = area.nodes;
       if (areaNodeIds.length === 0) return;
 
-      // Zoom to area nodes with padding
-      fitView({
-        nodes: nodes.filter((node) => areaNodeIds.includes(node.id)),
-        padding: 0.2,
-        duration: 500,
-        minZoom: 0.1,
-        maxZoom: 1.5,
+      // Zoom to the area's current bounds, folders culled off-screen included
+      const { nodes: treeNodes, highlightedNodeIds: highlightedIds, childPageSize: pageSize } =
+        useFlowStore.getState();
+      const { nodes: allNodes } = convertAllNodes(treeNodes, {
+        highlightedNodeIds: new Set(highlightedIds),
+        pageSize,
       });
+      const { position, size } = calculateAreaBounds(area, mergeRenderedNodes(allNodes, getNodes()));
+      fitBounds({ ...position, ...size }, { padding: 0.2, duration: 500 });
     },
-    [nodes, fitView, setSelectedAreaId]
+    [getNodes, fitBounds, setSelectedAreaId]
   );
 
   // Listen for zoom requests from AreasMenu
@@ -729,6 +916,56 @@ function FlowCanvas({ className }: FolderCanvasProps) {
     };
   }, [handleZoomToArea]);
 
+  // Center the viewport on a node and select it
+  const centerOnNode = useCallback(
+    (nodeId: string) => {
+      const node = getNode(nodeId);
+      if (!node) return false;
+
+      setNodesState((nds) =>
+        nds.map((n) => ({ ...n, selected: n.id === nodeId }))
+      );
+      setCenter(
+        node.position.x + nodeWidth / 2,
+        node.position.y + nodeHeight / 2,
+        { zoom: Math.max(getZoom(), 1), duration: 500 }
+      );
+      return true;
+    },
+    [getNode, getZoom, setCenter, setNodesState]
+  );
+
+  // Listen for focus requests from the store (e.g. revealing a search match)
+  useEffect(() => {
+    const handleFocusEvent = (event: CustomEvent<{ nodeId: string }>) => {
+      if (!centerOnNode(event.detail.nodeId)) {
+        // Not rendered yet; retry once it shows up
+        pendingFocusNodeIdRef.current = event.detail.nodeId;
+        // Culled while off-screen: move there so it gets drawn
+        const position = findNodeByIdRecursive(useFlowStore.getState().nodes, event.detail.nodeId)?.position;
+        if (position && (position.x !== 0 || position.y !== 0)) {
+          setCenter(position.x + nodeWidth / 2, position.y + nodeHeight / 2, {
+            zoom: Math.max(getZoom(), 1),
+            duration: 500,
+          });
+        }
+      }
+    };
+
+    window.addEventListener('focusNode', handleFocusEvent as EventListener);
+    return () => {
+      window.removeEventListener('focusNode', handleFocusEvent as EventListener);
+    };
+  }, [centerOnNode, setCenter, getZoom]);
+
+  useEffect(() => {
+    const pendingId = pendingFocusNodeIdRef.current;
+    if (pendingId && nodes.some((node) => node.id === pendingId)) {
+      pendingFocusNodeIdRef.current = null;
+      requestAnimationFrame(() => centerOnNode(pendingId));
+    }
+  }, [nodes, centerOnNode]);
+
   const handleSelectionChange = useCallback<OnSelectionChangeFunc>(
     ({ nodes: selectedNodes }) => {
       if (selectedNodes && selectedNodes.length > 0) {
@@ -766,6 +1003,8 @@ function FlowCanvas({ className }: FolderCanvasProps) {
         nodesConnectable={false}
         elementsSelectable
         fitView={false}
+        // Nodes and edges outside the viewport stay out of the DOM
+        onlyRenderVisibleElements
         minZoom={0.1}
         maxZoom={2}
         panOnScroll
@@ -790,6 +1029,8 @@ function FlowCanvas({ className }: FolderCanvasProps) {
           }}
           maskColor="var(--color-app-bg)"
         />
+        <AreaLayer nodes={nodes} onZoomToArea={handleZoomToArea} />
+        <ExportMenu />
       </ReactFlow>
     </div>
   );
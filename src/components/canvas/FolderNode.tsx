@@ -1,14 +1,32 @@
 'use client';
 
-import React, { useState, memo, useCallback } from 'react';
-import { Handle, Position, NodeProps } from 'reactflow';
+import React, { useState, memo, useCallback, useEffect } from 'react';
+import { Handle, Position, NodeProps, useStore, useUpdateNodeInternals } from 'reactflow';
 import { motion } from 'framer-motion';
-import { ChevronDown, ChevronRight, MapPin, X } from 'lucide-react';
+import { ChevronDown, ChevronRight, Loader2, MapPin, X } from 'lucide-react';
 import { useFlowStore } from '@/store/useFlowStore';
 import ContextMenu from '../context-menu/ContextMenu';
 import { formatPath } from '@/lib/utils';
 import { FolderNodeVisualData } from '@/lib/types';
 
+// Below this zoom nodes are drawn as plain shapes; their labels would be too small to read
+export const DETAIL_ZOOM = 0.4;
+
+// Where edges attach: top and bottom in the top-down layout, left and right otherwise
+export function useHandleSides(id: string) {
+  const isTopDown = useFlowStore((state) => state.layoutMode === 'topDown');
+  const updateNodeInternals = useUpdateNodeInternals();
+
+  // React Flow measures handles once; measure again when they move
+  useEffect(() => {
+    updateNodeInternals(id);
+  }, [id, isTopDown, updateNodeInternals]);
+
+  return isTopDown
+    ? { target: Position.Top, source: Position.Bottom }
+    : { target: Position.Left, source: Position.Right };
+}
+
 const FolderNode = memo(function FolderNode({
   data,
   id,
@@ -22,13 +40,25 @@ const FolderNode = memo(function FolderNode({
   const unmarkAsArea = useFlowStore((state) => state.unmarkAsArea);
   const rootFolderIds = useFlowStore((state) => state.rootFolderIds);
   const areas = useFlowStore((state) => state.areas);
+  const isLoadingChildren = useFlowStore((state) => state.loadingNodeIds.has(id));
+  const isPulsing = useFlowStore((state) => state.pulsingNodeIds.has(id));
+  const openActions = useFlowStore((state) => state.openActions);
+  const openNodeFolder = useFlowStore((state) => state.openNodeFolder);
+  const requestFolderOperation = useFlowStore((state) => state.requestFolderOperation);
+  const demoMode = useFlowStore((state) => state.demoMode);
+  const copyNodeLink = useFlowStore((state) => state.copyNodeLink);
+  const relayout = useFlowStore((state) => state.relayout);
+  const handleSides = useHandleSides(id);
+  const showDetails = useStore((state) => state.transform[2] >= DETAIL_ZOOM);
+  const [renameValue, setRenameValue] = useState<string | null>(null);
   const [contextMenu, setContextMenu] = useState<{
     x: number;
     y: number;
   } | null>(null);
 
-  const hasChildren = (data.childCount ?? 0) > 0;
+  const hasChildren = data.hasChildren ?? (data.childCount ?? 0) > 0;
   const isCollapsed = data.expanded === false;
+  const isMissing = data.isMissing ?? false;
 
   const handleRightClick = (e: React.MouseEvent) => {
     e.preventDefault();
@@ -50,19 +80,20 @@ const FolderNode = memo(function FolderNode({
     toggleNodeExpanded(id);
   }, [hasChildren, toggleNodeExpanded, id]);
 
-  const handleOpenFolder = useCallback(() => {
-    fetch('http://localhost:3001/open-folder', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ path: data.path }),
-    }).catch(() => { });
+  const handleOpenFolder = useCallback((actionId?: string) => {
+    openNodeFolder(data.path, actionId);
+    handleContextMenuClose();
+  }, [data.path, openNodeFolder]);
+
+  const handleCopyLink = useCallback(() => {
+    copyNodeLink(data.path);
     handleContextMenuClose();
-  }, [data.path]);
+  }, [data.path, copyNodeLink]);
 
-  const handleShare = useCallback(() => {
-    navigator.clipboard.writeText(`Share placeholder -> ${data.path}`);
+  const handleRelayout = useCallback(() => {
+    relayout(id);
     handleContextMenuClose();
-  }, [data.path]);
+  }, [id, relayout]);
 
   const handleHighlight = useCallback(() => {
     setHighlightedNodeIds([id]);
@@ -73,6 +104,10 @@ const FolderNode = memo(function FolderNode({
   const isArea = areas.some((area) => area.id === id);
   const canMarkAsArea = !isArea;
   const canUnmarkAsArea = isArea && !isRootFolder; // Root folders must remain Areas
+  // Folders on the local disk can be changed in Edit mode; roots stay put
+  const canChangeOnDisk =
+    viewMode === 'edit' && !demoMode && !isMissing && (data.connector ?? 'local-fs') === 'local-fs';
+  const canMoveOnDisk = canChangeOnDisk && !isRootFolder;
 
   const handleMarkAsArea = useCallback(() => {
     markAsArea(id);
@@ -84,38 +119,105 @@ const FolderNode = memo(function FolderNode({
     handleContextMenuClose();
   }, [id, unmarkAsArea]);
 
+  const handleNewFolder = useCallback(() => {
+    requestFolderOperation({ type: 'create', parentId: id, parentPath: data.path, name: 'New folder' });
+    handleContextMenuClose();
+  }, [id, data.path, requestFolderOperation]);
+
+  const handleStartRename = useCallback(() => {
+    setRenameValue(data.label);
+    handleContextMenuClose();
+  }, [data.label]);
+
+  const handleTrash = useCallback(() => {
+    requestFolderOperation({ type: 'trash', nodeId: id, path: data.path, name: data.label });
+    handleContextMenuClose();
+  }, [id, data.path, data.label, requestFolderOperation]);
+
+  // The inline edit only proposes the name; the rename itself is confirmed in a prompt
+  const handleRenameSubmit = () => {
+    const name = renameValue?.trim();
+    setRenameValue(null);
+    if (!name || name === data.label) return;
+    requestFolderOperation({ type: 'rename', nodeId: id, path: data.path, name });
+  };
+
+  if (!showDetails) {
+    return (
+      <div
+        className={`h-10 w-[140px] rounded-lg border ${selected ? 'border-[var(--color-accent)]' : 'border-gray-200'
+          } ${data.isHighlighted ? 'ring-2 ring-[var(--color-accent)]/70' : ''} ${isMissing ? 'border-dashed opacity-60' : ''}`}
+        style={{ background: data.color || 'white' }}
+        title={data.path}
+      >
+        <Handle type="target" position={handleSides.target} />
+        <Handle type="source" position={handleSides.source} />
+      </div>
+    );
+  }
+
   return (
     <>
       <motion.div
         onContextMenu={handleRightClick}
         onClick={() => hasChildren && toggleNodeExpanded(id)}
+        animate={isPulsing ? { scale: [1, 1.08, 1] } : { scale: 1 }}
+        transition={{ duration: 0.6, repeat: isPulsing ? 1 : 0 }}
         className={`group relative w-[140px] rounded-lg border bg-white px-2.5 py-2 shadow-sm transition-all ${selected
           ? 'border-[var(--color-accent)] shadow-md'
           : 'border-gray-200'
           } ${data.isHighlighted
             ? 'ring-2 ring-[var(--color-accent)]/70 ring-offset-1'
             : 'ring-0'
-          }`}
+          } ${isPulsing ? 'shadow-[0_0_0_3px_rgba(251,191,36,0.7)]' : ''} ${isMissing ? 'border-dashed opacity-60' : ''}`}
+        title={isMissing ? `${data.path} no longer exists on disk` : undefined}
         style={{
           background: data.color || 'white',
         }}
       >
         <Handle
           type="target"
-          position={Position.Left}
+          position={handleSides.target}
         />
 
         <div className="flex items-center gap-2 flex-1 min-w-0">
           <div className="text-base leading-none flex-shrink-0">{getIcon(data.icon)}</div>
           <div className="min-w-0 flex-1">
-            <p
-              className="text-xs font-medium truncate leading-tight"
-              style={{
-                color: data.color ? (isLightColor(data.color) ? '#1f2937' : '#ffffff') : '#1f2937'
-              }}
-            >
-              {data.label}
-            </p>
+            {renameValue !== null ? (
+              <input
+                autoFocus
+                value={renameValue}
+                onChange={(e) => setRenameValue(e.target.value)}
+                onFocus={(e) => e.target.select()}
+                onClick={(e) => e.stopPropagation()}
+                onDoubleClick={(e) => e.stopPropagation()}
+                onBlur={() => setRenameValue(null)}
+                onKeyDown={(e) => {
+                  e.stopPropagation();
+                  if (e.key === 'Enter') handleRenameSubmit();
+                  if (e.key === 'Escape') setRenameValue(null);
+                }}
+                className="nodrag w-full rounded border border-[var(--color-accent)] bg-white px-1 text-xs font-medium leading-tight text-gray-800 outline-none"
+              />
+            ) : (
+              <p
+                className={`text-xs font-medium truncate leading-tight ${isMissing ? 'line-through' : ''}`}
+                style={{
+                  color: data.color ? (isLightColor(data.color) ? '#1f2937' : '#ffffff') : '#1f2937'
+                }}
+                onDoubleClick={(e) => {
+                  if (!canMoveOnDisk) return;
+                  e.stopPropagation();
+                  setRenameValue(data.label);
+                }}
+                title={canMoveOnDisk ? 'Double-click to rename' : undefined}
+              >
+                {data.label}
+              </p>
+            )}
+            {isMissing && (
+              <p className="text-[10px] leading-tight text-rose-500">Gone from disk</p>
+            )}
           </div>
           <div className="flex items-center gap-1 flex-shrink-0">
             {/* Area button - visible on hover or when area is marked */}
@@ -145,9 +247,12 @@ const FolderNode = memo(function FolderNode({
             {hasChildren && (
               <button
                 onClick={handleToggle}
+                disabled={isLoadingChildren}
                 className="rounded border border-gray-200 bg-white p-0.5 text-gray-500 hover:bg-gray-50 flex-shrink-0 transition-colors"
               >
-                {isCollapsed ? (
+                {isLoadingChildren ? (
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                ) : isCollapsed ? (
                   <ChevronRight className="h-3 w-3" />
                 ) : (
                   <ChevronDown className="h-3 w-3" />
@@ -159,7 +264,7 @@ const FolderNode = memo(function FolderNode({
 
         <Handle
           type="source"
-          position={Position.Right}
+          position={handleSides.source}
         />
       </motion.div>
 
@@ -178,24 +283,47 @@ const FolderNode = memo(function FolderNode({
               },
               icon: isCollapsed ? '➕' : '➖',
             },
+            // Tidy up below this folder with the current layout algorithm
+            ...(!isCollapsed && data.childCount > 0
+              ? [{ label: 'Re-layout subtree', action: handleRelayout, icon: '🧭' }]
+              : []),
             {
               label: 'Highlight node',
               action: handleHighlight,
               icon: '✨',
             },
-            {
-              label: 'Open folder',
-              action: handleOpenFolder,
-              icon: '📂',
-            },
+            // One entry per open action configured on the backend
+            ...(openActions.length > 0
+              ? openActions.map((openAction) => ({
+                label: openAction.label,
+                action: () => handleOpenFolder(openAction.id),
+                icon: openAction.icon ?? '📂',
+              }))
+              : [
+                {
+                  label: 'Open folder',
+                  action: () => handleOpenFolder(),
+                  icon: '📂',
+                },
+              ]),
+            // Changes on disk, confirmed before they run
+            ...(canChangeOnDisk
+              ? [{ label: 'New folder here', action: handleNewFolder, icon: '🆕' }]
+              : []),
+            ...(canMoveOnDisk
+              ? [
+                { label: 'Rename', action: handleStartRename, icon: '✏️' },
+                { label: 'Move to trash', action: handleTrash, icon: '🗑️' },
+              ]
+              : []),
             {
               label: isArea ? 'Unmark as Area' : 'Mark as Area',
               action: isArea ? handleUnmarkAsArea : handleMarkAsArea,
               icon: isArea ? '❌' : '📍',
             },
             {
-              label: 'Share (soon)',
-              action: handleShare,
+              label: 'Copy link',
+              action: handleCopyLink,
               icon: '🔗',
             },
           ]}
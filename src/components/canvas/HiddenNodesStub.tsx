@@ -0,0 +1,33 @@
+'use client';
+
+import React, { memo } from 'react';
+import { Handle, NodeProps, useStore } from 'reactflow';
+import { EyeOff } from 'lucide-react';
+import { FolderNodeVisualData } from '@/lib/types';
+import { DETAIL_ZOOM, useHandleSides } from './FolderNode';
+
+// Stands in for the folders left out once the canvas has rendered as many as it can
+const HiddenNodesStub = memo(function HiddenNodesStub({ id, data }: NodeProps<FolderNodeVisualData>) {
+  const handleSides = useHandleSides(id);
+  const showDetails = useStore((state) => state.transform[2] >= DETAIL_ZOOM);
+  const count = data.hiddenCount ?? 0;
+
+  return (
+    <div
+      className="flex h-10 w-[140px] items-center justify-center gap-1.5 rounded-lg border border-dashed border-gray-300 bg-white/70 text-xs text-gray-500"
+      title={`${count} more folder${count === 1 ? '' : 's'} not drawn to keep the canvas fast. Collapse other folders to see them.`}
+    >
+      <Handle type="target" position={handleSides.target} />
+      {showDetails && (
+        <>
+          <EyeOff className="h-3.5 w-3.5" />
+          {count.toLocaleString()} hidden
+        </>
+      )}
+    </div>
+  );
+});
+
+HiddenNodesStub.displayName = 'HiddenNodesStub';
+
+export default HiddenNodesStub;
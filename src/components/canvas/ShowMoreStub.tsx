@@ -0,0 +1,52 @@
+'use client';
+
+import React, { memo } from 'react';
+import { Handle, NodeProps, useStore } from 'reactflow';
+import { ChevronsDown, Loader2 } from 'lucide-react';
+import { FolderNodeVisualData } from '@/lib/types';
+import { useFlowStore } from '@/store/useFlowStore';
+import { DETAIL_ZOOM, useHandleSides } from './FolderNode';
+
+// Follows the shown children of a large folder; clicking it loads or reveals the next page
+const ShowMoreStub = memo(function ShowMoreStub({ id, data }: NodeProps<FolderNodeVisualData>) {
+  const handleSides = useHandleSides(id);
+  const showDetails = useStore((state) => state.transform[2] >= DETAIL_ZOOM);
+  const showMoreChildren = useFlowStore((state) => state.showMoreChildren);
+  const isLoading = useFlowStore((state) =>
+    data.parentId ? state.loadingNodeIds.has(data.parentId) : false
+  );
+  const count = data.hiddenCount ?? 0;
+
+  const handleClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (data.parentId) {
+      void showMoreChildren(data.parentId);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      disabled={isLoading}
+      className="flex h-10 w-[140px] items-center justify-center gap-1.5 rounded-lg border border-dashed border-gray-300 bg-white/70 text-xs text-gray-500 hover:border-gray-400 hover:text-gray-700 disabled:cursor-wait"
+      title={`${count.toLocaleString()} more folder${count === 1 ? '' : 's'}. Click to show the next page.`}
+    >
+      <Handle type="target" position={handleSides.target} />
+      {showDetails && (
+        <>
+          {isLoading ? (
+            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+          ) : (
+            <ChevronsDown className="h-3.5 w-3.5" />
+          )}
+          +{count.toLocaleString()} more
+        </>
+      )}
+    </button>
+  );
+});
+
+ShowMoreStub.displayName = 'ShowMoreStub';
+
+export default ShowMoreStub;
@@ -29,6 +29,10 @@ export default function SidePanel() {
   const selectPrevMatch = useFlowStore((state) => state.selectPrevSearchMatch);
   const focusSearchMatch = useFlowStore((state) => state.focusSearchMatch);
   const searchLoading = useFlowStore((state) => state.searchLoading);
+  const searchIncomplete = useFlowStore((state) => state.searchIncomplete);
+  const revealPrompt = useFlowStore((state) => state.revealPrompt);
+  const confirmRevealPrompt = useFlowStore((state) => state.confirmRevealPrompt);
+  const dismissRevealPrompt = useFlowStore((state) => state.dismissRevealPrompt);
 
   return (
     <aside
@@ -99,7 +103,7 @@ export default function SidePanel() {
             </p>
             {searchQuery.trim() && (
               <div className="mt-3 max-h-56 overflow-auto rounded-2xl border border-[var(--color-border)] bg-[var(--color-surface)]/90 shadow-xl">
-                {searchLoading ? (
+                {searchLoading && searchMatches.length === 0 ? (
                   <div className="px-4 py-3 text-xs text-[var(--color-text-muted)]">
                     Searching...
                   </div>
@@ -129,12 +133,42 @@ export default function SidePanel() {
                 )}
               </div>
             )}
+            {searchQuery.trim() && searchIncomplete && (
+              <p className="mt-2 text-xs text-amber-500">
+                The folder index is still being built or is full; some matches may be missing.
+              </p>
+            )}
             {searchQuery.trim() && (
               <p className="mt-2 flex items-center gap-2 text-xs text-[var(--color-text-muted)]">
                 <CornerDownLeft className="h-3 w-3" />
                 Enter to jump • Esc to clear • ↑↓ to navigate
               </p>
             )}
+            {revealPrompt && (
+              <div className="mt-3 rounded-2xl border border-[var(--color-accent)]/50 bg-[var(--color-highlight)]/40 p-3 text-xs text-[var(--color-text)]">
+                <p>
+                  <span className="font-semibold">{revealPrompt.match.name}</span>{' '}
+                  is outside the folders on the canvas.
+                </p>
+                <p className="mt-1 break-all text-[var(--color-text-muted)]">
+                  Add {revealPrompt.ancestorPath} as a new root?
+                </p>
+                <div className="mt-2 flex justify-end gap-2">
+                  <button
+                    onClick={dismissRevealPrompt}
+                    className="text-[var(--color-text-muted)] hover:text-[var(--color-text)]"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={confirmRevealPrompt}
+                    className="rounded-full bg-[var(--color-accent)] px-3 py-1 font-medium text-[#031527] hover:bg-[var(--color-accent-strong)]"
+                  >
+                    Add folder
+                  </button>
+                </div>
+              </div>
+            )}
           </div>
 
           <div>
@@ -3,10 +3,10 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { createPortal } from 'react-dom';
 import { X, Folder, HardDrive, Loader2, ChevronLeft, ChevronRight, ArrowUpDown, ArrowUp, ArrowDown, FolderPlus } from 'lucide-react';
-import { fetchDrives, fetchDirectory, Drive, DirectoryResponse } from '@/lib/api';
+import { ApiError, fetchDrives, fetchDirectory, createFolder, Drive, DirectoryResponse } from '@/lib/api';
 import { useFlowStore } from '@/store/useFlowStore';
 import { FolderNode } from '@/lib/types';
-import { generateNodeId } from '@/lib/utils';
+import { createNodeId } from '@/lib/utils';
 
 interface AddFolderModalProps {
   isOpen: boolean;
@@ -30,7 +30,11 @@ export default function AddFolderModal({ isOpen, onClose }: AddFolderModalProps)
   const [sortBy, setSortBy] = useState<'name' | 'date'>('name');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
   const modalRef = useRef<HTMLDivElement>(null);
+  const [newFolderName, setNewFolderName] = useState<string | null>(null);
   const addRootFolder = useFlowStore((state) => state.addRootFolder);
+  const applyFileSystemEvent = useFlowStore((state) => state.applyFileSystemEvent);
+  const refreshFolderOperations = useFlowStore((state) => state.refreshFolderOperations);
+  const demoMode = useFlowStore((state) => state.demoMode);
 
   // Ensure we're mounted (client-side only)
   useEffect(() => {
@@ -44,6 +48,7 @@ export default function AddFolderModal({ isOpen, onClose }: AddFolderModalProps)
       setCurrentPath(null);
       setCurrentFolder(null);
       setNavigationStack([]);
+      setNewFolderName(null);
       setError(null);
       loadDrives();
     }
@@ -90,18 +95,15 @@ export default function AddFolderModal({ isOpen, onClose }: AddFolderModalProps)
       const drivesList = await fetchDrives();
       setDrives(drivesList);
     } catch (err) {
-      setError('Failed to load drives. Please try again.');
+      setError(err instanceof ApiError ? err.message : 'Failed to load drives. Please try again.');
     } finally {
       setLoading(false);
     }
   };
 
   const convertDirectoryResponse = (dir: DirectoryResponse, isRoot = false, depth = 0): FolderNode => {
-    // Fully expand all nodes when folder is added (all depths expanded)
-    const shouldExpand = true; // Always expand all nodes
-    
     return {
-      id: dir.id || generateNodeId(dir.path),
+      id: createNodeId('local-fs', dir.path),
       name: dir.name,
       path: dir.path,
       icon: dir.icon || 'folder',
@@ -110,8 +112,8 @@ export default function AddFolderModal({ isOpen, onClose }: AddFolderModalProps)
       children: dir.children
         ? dir.children.map((child) => convertDirectoryResponse(child, false, depth + 1))
         : [],
-      expanded: shouldExpand, // Fully expand all nodes
-      hasChildren: Boolean(dir.children && dir.children.length > 0),
+      expanded: isRoot, // Deeper levels are loaded and expanded on demand
+      hasChildren: dir.hasChildren ?? Boolean(dir.children && dir.children.length > 0),
       connector: 'local-fs',
     };
   };
@@ -129,7 +131,7 @@ export default function AddFolderModal({ isOpen, onClose }: AddFolderModalProps)
         setNavigationStack(prev => [...prev, { name, path, type }]);
       }
     } catch (err) {
-      setError(`Failed to load folder: ${path}. Please try again.`);
+      setError(err instanceof ApiError ? err.message : `Failed to load folder: ${path}. Please try again.`);
     } finally {
       setLoading(false);
     }
@@ -186,7 +188,7 @@ export default function AddFolderModal({ isOpen, onClose }: AddFolderModalProps)
 
       onClose();
     } catch (err) {
-      setError(`Failed to add folder. Please try again.`);
+      setError(err instanceof ApiError ? err.message : `Failed to add folder. Please try again.`);
     } finally {
       setLoading(false);
     }
@@ -236,8 +238,30 @@ export default function AddFolderModal({ isOpen, onClose }: AddFolderModalProps)
   };
 
   const handleNewFolder = () => {
-    // TODO: Implement new folder creation
-    alert('New folder creation will be implemented soon');
+    if (!currentPath) return;
+    setNewFolderName('New folder');
+  };
+
+  // Typing the name and pressing Create is the confirmation
+  const handleCreateFolder = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newFolderName?.trim();
+    if (!currentPath || !name) return;
+
+    const current = navigationStack[navigationStack.length - 1];
+    setLoading(true);
+    setError(null);
+    try {
+      const { event } = await createFolder(currentPath, name);
+      // Keep the canvas in step when this folder is already on it
+      applyFileSystemEvent(event);
+      void refreshFolderOperations();
+      setNewFolderName(null);
+      await navigateToPath(currentPath, current?.name ?? name, current?.type ?? 'folder', false);
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to create folder. Please try again.');
+      setLoading(false);
+    }
   };
 
   if (!isOpen || !mounted) return null;
@@ -329,6 +353,9 @@ export default function AddFolderModal({ isOpen, onClose }: AddFolderModalProps)
                 <p className="text-sm font-medium text-[var(--color-text-muted)] mb-3 flex-shrink-0">
                   Select a drive to navigate:
                 </p>
+                <p className="text-xs text-[var(--color-text-muted)] -mt-2 mb-3 flex-shrink-0">
+                  Only locations inside the backend&apos;s allowed roots are listed.
+                </p>
                 <div className="grid grid-cols-1 gap-2 overflow-y-auto flex-1 min-h-0">
                   {drives.map((drive) => (
                     <button
@@ -455,6 +482,9 @@ export default function AddFolderModal({ isOpen, onClose }: AddFolderModalProps)
             <p className="text-sm text-[var(--color-text-muted)]">
               No drives or folders available.
             </p>
+            <p className="mt-1 text-xs text-[var(--color-text-muted)]">
+              Add folders to ALLOWED_ROOTS or backend/config.json to browse them.
+            </p>
           </div>
         )}
 
@@ -469,13 +499,41 @@ export default function AddFolderModal({ isOpen, onClose }: AddFolderModalProps)
 
         {/* Footer with action buttons */}
         <div className="mt-6 pt-4 border-t border-[var(--color-border)] flex items-center justify-between">
-          <button
-            onClick={handleNewFolder}
-            className="flex items-center gap-2 px-3 py-2 rounded-lg border border-[var(--color-border)] text-[var(--color-text)] hover:bg-[var(--color-surface-alt)] transition"
-          >
-            <FolderPlus className="h-4 w-4" />
-            <span className="text-sm">New folder</span>
-          </button>
+          {newFolderName !== null ? (
+            <form onSubmit={handleCreateFolder} className="flex items-center gap-2">
+              <input
+                autoFocus
+                value={newFolderName}
+                onChange={(e) => setNewFolderName(e.target.value)}
+                onFocus={(e) => e.target.select()}
+                onKeyDown={(e) => {
+                  if (e.key === 'Escape') {
+                    e.stopPropagation();
+                    setNewFolderName(null);
+                  }
+                }}
+                className="w-44 px-3 py-2 rounded-lg border border-[var(--color-border)] bg-[var(--color-surface-alt)] text-sm text-[var(--color-text)] outline-none focus:border-[var(--color-accent)]"
+                placeholder="Folder name"
+              />
+              <button
+                type="submit"
+                disabled={loading || !newFolderName.trim()}
+                className="px-3 py-2 rounded-lg bg-[var(--color-accent)] text-sm text-white hover:opacity-90 disabled:opacity-50 transition"
+              >
+                Create
+              </button>
+            </form>
+          ) : (
+            <button
+              onClick={handleNewFolder}
+              disabled={!currentPath || demoMode}
+              title={currentPath ? `Create a folder in ${currentPath}` : 'Open a folder first'}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg border border-[var(--color-border)] text-[var(--color-text)] hover:bg-[var(--color-surface-alt)] disabled:opacity-50 disabled:cursor-not-allowed transition"
+            >
+              <FolderPlus className="h-4 w-4" />
+              <span className="text-sm">New folder</span>
+            </button>
+          )}
           <div className="flex gap-2">
             <button
               onClick={onClose}
@@ -0,0 +1,168 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { History, RotateCcw, Save } from 'lucide-react';
+import { useFlowStore } from '@/store/useFlowStore';
+import { fetchLayoutRevisions, getLayoutRevision } from '@/lib/api';
+import { diffLayouts } from '@/lib/layoutDiff';
+import { getPathName } from '@/lib/utils';
+import { LayoutRevision, LayoutRevisionSummary, SavedLayout } from '@/lib/types';
+
+// Paths listed per kind of change before falling back to a count
+const MAX_LISTED_CHANGES = 3;
+
+interface LayoutHistoryPanelProps {
+  layout: SavedLayout;
+  onClose: () => void;
+}
+
+export default function LayoutHistoryPanel({ layout, onClose }: LayoutHistoryPanelProps) {
+  const nodes = useFlowStore((state) => state.nodes);
+  const areas = useFlowStore((state) => state.areas);
+  const saveLayout = useFlowStore((state) => state.saveLayout);
+  const restoreLayoutRevision = useFlowStore((state) => state.restoreLayoutRevision);
+  const reportError = useFlowStore((state) => state.reportError);
+
+  const [revisions, setRevisions] = useState<LayoutRevisionSummary[] | null>(null);
+  const [selected, setSelected] = useState<LayoutRevision | null>(null);
+  const [message, setMessage] = useState('');
+
+  // Reload whenever the layout is saved again
+  useEffect(() => {
+    let cancelled = false;
+    fetchLayoutRevisions(layout.id)
+      .then((list) => {
+        if (!cancelled) setRevisions(list);
+      })
+      .catch((error) => reportError(error, 'Failed to load layout history'));
+    return () => {
+      cancelled = true;
+    };
+  }, [layout.id, layout.updatedAt, reportError]);
+
+  const diff = useMemo(
+    () => (selected ? diffLayouts(selected, { nodes, areas }) : null),
+    [selected, nodes, areas]
+  );
+
+  const handleSelect = async (revisionId: string) => {
+    if (selected?.id === revisionId) {
+      setSelected(null);
+      return;
+    }
+    try {
+      setSelected(await getLayoutRevision(layout.id, revisionId));
+    } catch (error) {
+      reportError(error, 'Failed to fetch revision');
+    }
+  };
+
+  const handleSave = async () => {
+    await saveLayout(message.trim() || undefined);
+    setMessage('');
+  };
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    await restoreLayoutRevision(selected.id);
+    onClose();
+  };
+
+  const describeChanges = (label: string, values: string[], format = getPathName) =>
+    values.length > 0 && (
+      <li key={label}>
+        {values.length} {label}
+        <span className="text-[var(--color-text-muted)]">
+          {' '}
+          ({values.slice(0, MAX_LISTED_CHANGES).map(format).join(', ')}
+          {values.length > MAX_LISTED_CHANGES ? ', …' : ''})
+        </span>
+      </li>
+    );
+
+  return (
+    <div className="absolute right-0 top-full mt-2 w-80 z-50 rounded-2xl border border-[var(--color-border)] bg-[var(--color-surface)] p-4 text-sm shadow-2xl">
+      <p className="flex items-center gap-2 text-xs font-semibold uppercase tracking-widest text-[var(--color-text-muted)]">
+        <History className="h-3.5 w-3.5" />
+        History of {layout.name}
+      </p>
+
+      <div className="mt-3 flex gap-2">
+        <input
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              handleSave();
+            } else if (e.key === 'Escape') {
+              onClose();
+            }
+          }}
+          placeholder="What changed? (optional)"
+          className="min-w-0 flex-1 rounded-xl border border-[var(--color-border)] bg-transparent px-3 py-1.5 outline-none focus:border-[var(--color-accent)]"
+        />
+        <button
+          onClick={handleSave}
+          title="Save the canvas as a new revision"
+          className="inline-flex items-center gap-1 rounded-full bg-[var(--color-accent)] px-3 py-1 font-medium text-[#031527] hover:bg-[var(--color-accent-strong)]"
+        >
+          <Save className="h-3.5 w-3.5" />
+          Save
+        </button>
+      </div>
+
+      <ul className="mt-3 max-h-64 space-y-1 overflow-y-auto">
+        {revisions === null && <li className="text-[var(--color-text-muted)]">Loading…</li>}
+        {revisions?.length === 0 && (
+          <li className="text-[var(--color-text-muted)]">No revisions yet. Saving the layout keeps one.</li>
+        )}
+        {revisions?.map((revision, index) => (
+          <li key={revision.id}>
+            <button
+              onClick={() => handleSelect(revision.id)}
+              className={`w-full rounded-xl px-2 py-1.5 text-left hover:bg-[var(--color-surface-alt)] ${
+                selected?.id === revision.id ? 'bg-[var(--color-surface-alt)]' : ''
+              }`}
+            >
+              <span className="block">
+                {new Date(revision.createdAt).toLocaleString()}
+                {index === 0 && <span className="text-[var(--color-text-muted)]"> • latest</span>}
+              </span>
+              <span className="block truncate text-xs text-[var(--color-text-muted)]">
+                {revision.message ?? `${revision.nodeCount} folders, ${revision.areaCount} areas`}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {selected && diff && (
+        <div className="mt-3 rounded-xl border border-[var(--color-border)] p-3">
+          <p className="text-xs font-semibold uppercase tracking-widest text-[var(--color-text-muted)]">
+            Canvas compared to this revision
+          </p>
+          {diff.moved.length + diff.recolored.length + diff.added.length + diff.removed.length + diff.areasChanged.length === 0 ? (
+            <p className="mt-1">No differences.</p>
+          ) : (
+            <ul className="mt-1 space-y-0.5">
+              {describeChanges('moved', diff.moved)}
+              {describeChanges('recolored', diff.recolored)}
+              {describeChanges('not in this revision', diff.added)}
+              {describeChanges('only in this revision', diff.removed)}
+              {describeChanges('areas changed', diff.areasChanged, (name) => name)}
+            </ul>
+          )}
+          <div className="mt-3 flex justify-end">
+            <button
+              onClick={handleRestore}
+              className="inline-flex items-center gap-1 rounded-full border border-[var(--color-border)] px-3 py-1 hover:border-[var(--color-accent)]"
+            >
+              <RotateCcw className="h-3.5 w-3.5" />
+              Restore this revision
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
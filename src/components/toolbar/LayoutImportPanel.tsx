@@ -0,0 +1,98 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Upload } from 'lucide-react';
+import { useFlowStore } from '@/store/useFlowStore';
+import { getLayoutFileRootPaths, LAYOUT_FILE_EXTENSION } from '@/lib/layoutFile';
+
+interface LayoutImportPanelProps {
+  onClose: () => void;
+}
+
+export default function LayoutImportPanel({ onClose }: LayoutImportPanelProps) {
+  const importLayout = useFlowStore((state) => state.importLayout);
+  const pushToast = useFlowStore((state) => state.pushToast);
+
+  const [file, setFile] = useState<{ name: string; content: unknown } | null>(null);
+  const [rewriteFrom, setRewriteFrom] = useState('');
+  const [rewriteTo, setRewriteTo] = useState('');
+  const rootPaths = file ? getLayoutFileRootPaths(file.content) : [];
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (!selected) return;
+    try {
+      const content: unknown = JSON.parse(await selected.text());
+      setFile({ name: selected.name, content });
+      // Suggest moving the first folder; most layouts share one parent
+      setRewriteFrom(getLayoutFileRootPaths(content)[0] ?? '');
+    } catch {
+      setFile(null);
+      pushToast(`${selected.name} is not a JSON file`);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+    const from = rewriteFrom.trim();
+    const to = rewriteTo.trim();
+    onClose();
+    await importLayout(file.content, from && to ? { from, to } : undefined);
+  };
+
+  return (
+    <div className="absolute right-0 top-full mt-2 w-80 z-50 rounded-2xl border border-[var(--color-border)] bg-[var(--color-surface)] p-4 text-sm shadow-2xl">
+      <p className="text-xs font-semibold uppercase tracking-widest text-[var(--color-text-muted)]">
+        Import layout
+      </p>
+      <input
+        type="file"
+        accept={`${LAYOUT_FILE_EXTENSION},application/json`}
+        onChange={handleFileChange}
+        className="mt-2 w-full text-xs text-[var(--color-text-muted)] file:mr-2 file:rounded-full file:border file:border-[var(--color-border)] file:bg-transparent file:px-3 file:py-1 file:text-[var(--color-text)]"
+      />
+
+      {file && (
+        <>
+          {rootPaths.length > 0 && (
+            <p className="mt-3 break-all text-xs text-[var(--color-text-muted)]">
+              Folders in this file: {rootPaths.join(', ')}
+            </p>
+          )}
+          <p className="mt-3 text-xs text-[var(--color-text-muted)]">
+            Folders live somewhere else on this machine? Replace the start of their paths:
+          </p>
+          <input
+            value={rewriteFrom}
+            onChange={(e) => setRewriteFrom(e.target.value)}
+            placeholder="From, e.g. C:\Users\alice"
+            className="mt-2 w-full rounded-xl border border-[var(--color-border)] bg-transparent px-3 py-1.5 outline-none focus:border-[var(--color-accent)]"
+          />
+          <input
+            value={rewriteTo}
+            onChange={(e) => setRewriteTo(e.target.value)}
+            placeholder="To, e.g. /home/bob (leave empty to keep)"
+            className="mt-2 w-full rounded-xl border border-[var(--color-border)] bg-transparent px-3 py-1.5 outline-none focus:border-[var(--color-accent)]"
+          />
+        </>
+      )}
+
+      <div className="mt-3 flex justify-end gap-2">
+        <button
+          onClick={onClose}
+          className="text-sm text-[var(--color-text-muted)] hover:text-[var(--color-text)]"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleImport}
+          disabled={!file}
+          className="inline-flex items-center gap-1 rounded-full bg-[var(--color-accent)] px-3 py-1 font-medium text-[#031527] hover:bg-[var(--color-accent-strong)] disabled:opacity-50"
+        >
+          <Upload className="h-3.5 w-3.5" />
+          Import
+        </button>
+      </div>
+    </div>
+  );
+}
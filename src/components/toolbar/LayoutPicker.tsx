@@ -0,0 +1,112 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronDown, LayoutGrid } from 'lucide-react';
+import { MAX_LAYOUT_SPACING, MIN_LAYOUT_SPACING, useFlowStore } from '@/store/useFlowStore';
+import { LayoutMode } from '@/lib/types';
+
+const LAYOUT_MODES: [LayoutMode, string, string][] = [
+  ['freeflow', 'Freeflow', 'Folders stay where you put them'],
+  ['tree', 'Tree', 'Left to right'],
+  ['topDown', 'Top-down tree', 'Top to bottom'],
+  ['radial', 'Radial', 'Mind map around each root'],
+  ['compact', 'Compact', 'Tidy tree with tight rows'],
+  ['force', 'Force-directed', 'Related folders pulled together'],
+];
+
+// Choose how the canvas arranges folders, tune the spacing and re-run the layout
+export default function LayoutPicker() {
+  const layoutMode = useFlowStore((state) => state.layoutMode);
+  const setLayoutMode = useFlowStore((state) => state.setLayoutMode);
+  const layoutSpacing = useFlowStore((state) => state.layoutSpacing);
+  const setLayoutSpacing = useFlowStore((state) => state.setLayoutSpacing);
+  const relayout = useFlowStore((state) => state.relayout);
+  const selectedNodeId = useFlowStore((state) => state.selectedNodeId);
+
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const current = LAYOUT_MODES.find(([mode]) => mode === layoutMode) ?? LAYOUT_MODES[0];
+  // Freeflow re-layouts use the tree
+  const algorithm = layoutMode === 'freeflow' ? 'tree' : layoutMode;
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        className="inline-flex items-center gap-1 px-3 py-1.5 rounded text-sm font-medium bg-emerald-400 text-[#022c22]"
+        title={current[2]}
+      >
+        <LayoutGrid className="h-4 w-4" />
+        {current[1]}
+        <ChevronDown className="h-3 w-3" />
+      </button>
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-2 w-64 z-50 rounded-2xl border border-[var(--color-border)] bg-[var(--color-surface)] p-2 text-sm shadow-2xl">
+          {LAYOUT_MODES.map(([mode, label, description]) => (
+            <button
+              key={mode}
+              onClick={() => setLayoutMode(mode)}
+              className={`flex w-full flex-col rounded-xl px-2 py-1.5 text-left hover:bg-[var(--color-surface-alt)] ${
+                layoutMode === mode ? 'bg-[var(--color-surface-alt)]' : ''
+              }`}
+            >
+              <span className="text-[var(--color-text)]">{label}</span>
+              <span className="text-xs text-[var(--color-text-muted)]">{description}</span>
+            </button>
+          ))}
+
+          <label className="mt-2 block px-2 text-xs text-[var(--color-text-muted)]">
+            Spacing ({LAYOUT_MODES.find(([mode]) => mode === algorithm)?.[1]}): {layoutSpacing[algorithm].toFixed(1)}×
+            <input
+              type="range"
+              min={MIN_LAYOUT_SPACING}
+              max={MAX_LAYOUT_SPACING}
+              step={0.1}
+              value={layoutSpacing[algorithm]}
+              onChange={(e) => setLayoutSpacing(algorithm, Number(e.target.value))}
+              // Apply the new spacing once the slider is let go
+              onPointerUp={() => relayout()}
+              onKeyUp={() => relayout()}
+              className="mt-1 w-full accent-[var(--color-accent)]"
+            />
+          </label>
+
+          <div className="mt-2 flex justify-end gap-2 px-2 pb-1">
+            {selectedNodeId && (
+              <button
+                onClick={() => {
+                  relayout(selectedNodeId);
+                  setIsOpen(false);
+                }}
+                className="rounded-full border border-[var(--color-border)] px-3 py-1 text-xs hover:border-[var(--color-accent)]"
+              >
+                Re-layout selection
+              </button>
+            )}
+            <button
+              onClick={() => {
+                relayout();
+                setIsOpen(false);
+              }}
+              className="rounded-full bg-[var(--color-accent)] px-3 py-1 text-xs font-medium text-[#031527] hover:bg-[var(--color-accent-strong)]"
+            >
+              Re-layout
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
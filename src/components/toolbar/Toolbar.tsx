@@ -1,9 +1,13 @@
 'use client';
 
 import React, { useState, useRef, useEffect } from 'react';
-import { Sparkles, MoonStar, SunMedium, Save, ChevronDown, Trash2, FolderPlus } from 'lucide-react';
+import { Sparkles, MoonStar, SunMedium, Save, ChevronDown, Trash2, FolderPlus, Undo2, Redo2, Copy, Pencil, FilePlus2, History, Check, Loader2, CircleDot, AlertCircle, Download, Upload } from 'lucide-react';
 import { useFlowStore } from '@/store/useFlowStore';
+import { describeFolderOperation } from '@/lib/utils';
 import AddFolderModal from './AddFolderModal';
+import LayoutHistoryPanel from './LayoutHistoryPanel';
+import LayoutImportPanel from './LayoutImportPanel';
+import LayoutPicker from './LayoutPicker';
 
 export default function Toolbar() {
   const viewMode = useFlowStore((state) => state.viewMode);
@@ -20,15 +24,31 @@ export default function Toolbar() {
   const savedLayouts = useFlowStore((state) => state.savedLayouts);
   const activeLayoutId = useFlowStore((state) => state.activeLayoutId);
   const saveLayout = useFlowStore((state) => state.saveLayout);
+  const saveLayoutAs = useFlowStore((state) => state.saveLayoutAs);
+  const renameLayout = useFlowStore((state) => state.renameLayout);
+  const duplicateLayout = useFlowStore((state) => state.duplicateLayout);
+  const exportLayout = useFlowStore((state) => state.exportLayout);
   const loadLayout = useFlowStore((state) => state.loadLayout);
   const deleteLayout = useFlowStore((state) => state.deleteLayout);
+  const layoutReconcileSummary = useFlowStore((state) => state.layoutReconcileSummary);
+  const dismissLayoutReconcileSummary = useFlowStore((state) => state.dismissLayoutReconcileSummary);
+  const lastFolderOperation = useFlowStore((state) => state.lastFolderOperation);
+  const layoutSaveStatus = useFlowStore((state) => state.layoutSaveStatus);
+  const undoFolderOperation = useFlowStore((state) => state.undoFolderOperation);
+  const canvasUndoStack = useFlowStore((state) => state.canvasUndoStack);
+  const canvasRedoStack = useFlowStore((state) => state.canvasRedoStack);
+  const undoCanvasEdit = useFlowStore((state) => state.undoCanvasEdit);
+  const redoCanvasEdit = useFlowStore((state) => state.redoCanvasEdit);
+  const nextUndo = canvasUndoStack[canvasUndoStack.length - 1];
+  const nextRedo = canvasRedoStack[canvasRedoStack.length - 1];
   const activeLayout = savedLayouts.find((layout) => layout.id === activeLayoutId) || null;
   const formatLayoutLabel = (layout: (typeof savedLayouts)[number]) => {
     const updatedAt = new Date(layout.updatedAt);
     return `${layout.name} • ${updatedAt.toLocaleString()}`;
   };
 
-  const [isSavingLayout, setIsSavingLayout] = useState(false);
+  // Closed, the action list, the name form for "Save as" / "Rename", the history or the import form
+  const [layoutMenu, setLayoutMenu] = useState<'closed' | 'actions' | 'saveAs' | 'rename' | 'history' | 'import'>('closed');
   const [layoutName, setLayoutName] = useState('');
   const [isAddFolderModalOpen, setIsAddFolderModalOpen] = useState(false);
   const saveLayoutRef = useRef<HTMLDivElement>(null);
@@ -45,6 +65,14 @@ export default function Toolbar() {
 
   const areaPalette = ['#FEE2E2', '#FEF3C7', '#DCFCE7', '#DBEAFE', '#E0E7FF'];
 
+  const saveStatusLabels = {
+    dirty: { label: 'Unsaved changes', icon: CircleDot, className: 'text-amber-500' },
+    saving: { label: 'Saving…', icon: Loader2, className: 'text-[var(--color-text-muted)] [&>svg]:animate-spin' },
+    saved: { label: 'Saved', icon: Check, className: 'text-[var(--color-text-muted)]' },
+    error: { label: 'Save failed', icon: AlertCircle, className: 'text-rose-500' },
+  };
+  const saveStatus = layoutSaveStatus === 'idle' ? null : saveStatusLabels[layoutSaveStatus];
+
   const icons = ['📁', '📂', '🗂️', '📋', '💾', '📀'];
 
   const handleColorChange = (color: string) => {
@@ -65,32 +93,71 @@ export default function Toolbar() {
     }
   };
 
-  const handleSaveLayout = async () => {
-    if (!layoutName.trim()) {
+  const closeLayoutMenu = () => {
+    setLayoutMenu('closed');
+    setLayoutName('');
+  };
+
+  const toggleLayoutMenu = () => {
+    if (layoutMenu !== 'closed') {
+      closeLayoutMenu();
+      return;
+    }
+    setLayoutMenu('actions');
+  };
+
+  const handleSubmitLayoutName = async () => {
+    const name = layoutName.trim();
+    if (!name) {
       return;
     }
-    await saveLayout(layoutName.trim());
-    setLayoutName('');
-    setIsSavingLayout(false);
+    if (layoutMenu === 'rename' && activeLayout) {
+      await renameLayout(activeLayout.id, name);
+    } else {
+      await saveLayoutAs(name);
+    }
+    closeLayoutMenu();
+  };
+
+  const handleLayoutAction = async (action: () => Promise<void>) => {
+    closeLayoutMenu();
+    await action();
   };
 
   // Close modal when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
       if (saveLayoutRef.current && !saveLayoutRef.current.contains(event.target as Node)) {
-        setIsSavingLayout(false);
+        setLayoutMenu('closed');
         setLayoutName('');
       }
     };
 
-    if (isSavingLayout) {
+    if (layoutMenu !== 'closed') {
       document.addEventListener('mousedown', handleClickOutside);
     }
 
     return () => {
       document.removeEventListener('mousedown', handleClickOutside);
     };
-  }, [isSavingLayout]);
+  }, [layoutMenu]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS) undo and redo canvas edits, except while typing
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'z') return;
+      const target = event.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      event.preventDefault();
+      if (event.shiftKey) {
+        redoCanvasEdit();
+      } else {
+        undoCanvasEdit();
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [undoCanvasEdit, redoCanvasEdit]);
 
   return (
     <div className="flex flex-wrap items-center gap-4 border-b border-[var(--color-border)] bg-[var(--color-panel)]/80 px-4 py-3 text-[var(--color-text)] shadow-[0_4px_30px_rgba(2,6,23,0.35)] backdrop-blur">
@@ -119,42 +186,121 @@ export default function Toolbar() {
         >
           Edit
         </button>
+        {viewMode === 'edit' && (
+          <button
+            onClick={undoFolderOperation}
+            disabled={!lastFolderOperation}
+            className="inline-flex items-center gap-1 rounded px-2 py-1.5 text-sm text-[var(--color-text)] hover:bg-[var(--color-surface-alt)] disabled:opacity-40"
+            title={lastFolderOperation ? `Undo ${describeFolderOperation(lastFolderOperation)}` : 'No folder changes to undo'}
+          >
+            <Undo2 className="h-4 w-4" />
+            Undo on disk
+          </button>
+        )}
+      </div>
+
+      {/* Canvas edits */}
+      <div className="flex items-center gap-1">
+        <button
+          onClick={undoCanvasEdit}
+          disabled={!nextUndo}
+          className="rounded p-1.5 text-[var(--color-text)] hover:bg-[var(--color-surface-alt)] disabled:opacity-40"
+          title={nextUndo ? `Undo ${nextUndo.label} (Ctrl+Z)` : 'Nothing to undo'}
+        >
+          <Undo2 className="h-4 w-4" />
+        </button>
+        <button
+          onClick={redoCanvasEdit}
+          disabled={!nextRedo}
+          className="rounded p-1.5 text-[var(--color-text)] hover:bg-[var(--color-surface-alt)] disabled:opacity-40"
+          title={nextRedo ? `Redo ${nextRedo.label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+        >
+          <Redo2 className="h-4 w-4" />
+        </button>
       </div>
 
       <div className="h-6 w-px bg-[var(--color-border)]" />
 
-      {/* Layout Mode - Always Freeflow */}
+      {/* Layout Mode */}
       <div className="flex items-center gap-2">
         <span className="text-sm font-medium text-[var(--color-text-muted)]">
           Layout:
         </span>
-        <div className="px-3 py-1.5 rounded text-sm font-medium bg-emerald-400 text-[#022c22]">
-          Freeflow
-        </div>
+        <LayoutPicker />
         <div className="flex items-center gap-2">
+          {saveStatus && (
+            <span
+              className={`inline-flex items-center gap-1 text-xs ${saveStatus.className}`}
+              title={activeLayout ? `Autosaves to ${activeLayout.name}` : 'Autosaves until you save it as a layout'}
+              role="status"
+            >
+              <saveStatus.icon className="h-3.5 w-3.5" />
+              {saveStatus.label}
+            </span>
+          )}
           <div className="relative" ref={saveLayoutRef}>
             <button
-              onClick={() => setIsSavingLayout((prev) => !prev)}
+              onClick={toggleLayoutMenu}
               className="inline-flex items-center gap-1 rounded-full border border-[var(--color-border)] px-3 py-1.5 text-sm text-[var(--color-text)] hover:border-[var(--color-accent)]"
             >
               <Save className="h-4 w-4" />
               Save layout
               <ChevronDown className="h-3 w-3" />
             </button>
-            {isSavingLayout && (
+            {layoutMenu === 'actions' && (
+              <div className="absolute right-0 top-full mt-2 w-56 z-50 rounded-2xl border border-[var(--color-border)] bg-[var(--color-surface)] p-2 text-sm shadow-2xl">
+                <p className="truncate px-2 py-1 text-xs font-semibold uppercase tracking-widest text-[var(--color-text-muted)]">
+                  {activeLayout?.name ?? 'Unsaved canvas'}
+                </p>
+                {[
+                  // Without a saved layout on the canvas it can only be saved under a name
+                  ...(activeLayout
+                    ? [
+                      { label: 'Save', icon: Save, onClick: () => handleLayoutAction(saveLayout) },
+                      { label: 'Save as…', icon: FilePlus2, onClick: () => setLayoutMenu('saveAs') },
+                      {
+                        label: 'Rename…',
+                        icon: Pencil,
+                        onClick: () => {
+                          setLayoutName(activeLayout.name);
+                          setLayoutMenu('rename');
+                        },
+                      },
+                      { label: 'Duplicate', icon: Copy, onClick: () => handleLayoutAction(() => duplicateLayout(activeLayout.id)) },
+                      { label: 'History…', icon: History, onClick: () => setLayoutMenu('history') },
+                      { label: 'Export', icon: Download, onClick: () => handleLayoutAction(() => exportLayout(activeLayout.id)) },
+                    ]
+                    : [{ label: 'Save as…', icon: FilePlus2, onClick: () => setLayoutMenu('saveAs') }]),
+                  { label: 'Import…', icon: Upload, onClick: () => setLayoutMenu('import') },
+                ].map(({ label, icon: Icon, onClick }) => (
+                  <button
+                    key={label}
+                    onClick={onClick}
+                    className="flex w-full items-center gap-2 rounded-xl px-2 py-1.5 text-left text-[var(--color-text)] hover:bg-[var(--color-surface-alt)]"
+                  >
+                    <Icon className="h-4 w-4 text-[var(--color-text-muted)]" />
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
+            {layoutMenu === 'import' && <LayoutImportPanel onClose={closeLayoutMenu} />}
+            {layoutMenu === 'history' && activeLayout && (
+              <LayoutHistoryPanel layout={activeLayout} onClose={closeLayoutMenu} />
+            )}
+            {(layoutMenu === 'saveAs' || layoutMenu === 'rename') && (
               <div className="absolute right-0 top-full mt-2 w-64 z-50 rounded-2xl border border-[var(--color-border)] bg-[var(--color-surface)] p-4 shadow-2xl">
                 <p className="text-xs font-semibold uppercase tracking-widest text-[var(--color-text-muted)]">
-                  Save layout
+                  {layoutMenu === 'rename' ? 'Rename layout' : 'Save layout as'}
                 </p>
                 <input
                   value={layoutName}
                   onChange={(e) => setLayoutName(e.target.value)}
                   onKeyDown={(e) => {
                     if (e.key === 'Enter') {
-                      handleSaveLayout();
+                      handleSubmitLayoutName();
                     } else if (e.key === 'Escape') {
-                      setIsSavingLayout(false);
-                      setLayoutName('');
+                      closeLayoutMenu();
                     }
                   }}
                   placeholder="Layout name"
@@ -163,19 +309,16 @@ export default function Toolbar() {
                 />
                 <div className="mt-3 flex justify-end gap-2">
                   <button
-                    onClick={() => {
-                      setIsSavingLayout(false);
-                      setLayoutName('');
-                    }}
+                    onClick={closeLayoutMenu}
                     className="text-sm text-[var(--color-text-muted)] hover:text-[var(--color-text)]"
                   >
                     Cancel
                   </button>
                   <button
-                    onClick={handleSaveLayout}
+                    onClick={handleSubmitLayoutName}
                     className="rounded-full bg-[var(--color-accent)] px-3 py-1 text-sm font-medium text-[#031527] hover:bg-[var(--color-accent-strong)]"
                   >
-                    Save
+                    {layoutMenu === 'rename' ? 'Rename' : 'Save'}
                   </button>
                 </div>
               </div>
@@ -214,6 +357,48 @@ export default function Toolbar() {
                   Saved {new Date(activeLayout.updatedAt).toLocaleString()}
                 </p>
               )}
+              {layoutReconcileSummary && (
+                <div className="absolute left-0 top-full mt-2 w-72 z-50 rounded-2xl border border-[var(--color-border)] bg-[var(--color-surface)] p-4 text-xs text-[var(--color-text)] shadow-2xl">
+                  <p className="font-semibold uppercase tracking-widest text-[var(--color-text-muted)]">
+                    {layoutReconcileSummary.layoutName} vs. disk
+                  </p>
+                  {layoutReconcileSummary.added.length === 0 &&
+                    layoutReconcileSummary.missing.length === 0 ? (
+                    <p className="mt-2">Everything matches what is on disk.</p>
+                  ) : (
+                    <p className="mt-2">
+                      {layoutReconcileSummary.kept} kept, {layoutReconcileSummary.added.length} new,{' '}
+                      {layoutReconcileSummary.missing.length} gone
+                    </p>
+                  )}
+                  {layoutReconcileSummary.added.length > 0 && (
+                    <ul className="mt-2 max-h-24 overflow-y-auto text-emerald-500">
+                      {layoutReconcileSummary.added.map((folderPath) => (
+                        <li key={folderPath} className="truncate" title={folderPath}>
+                          + {folderPath}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {layoutReconcileSummary.missing.length > 0 && (
+                    <ul className="mt-2 max-h-24 overflow-y-auto text-rose-500">
+                      {layoutReconcileSummary.missing.map((folderPath) => (
+                        <li key={folderPath} className="truncate" title={folderPath}>
+                          − {folderPath}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  <div className="mt-3 flex justify-end">
+                    <button
+                      onClick={dismissLayoutReconcileSummary}
+                      className="rounded-full bg-[var(--color-accent)] px-3 py-1 font-medium text-[#031527] hover:bg-[var(--color-accent-strong)]"
+                    >
+                      OK
+                    </button>
+                  </div>
+                </div>
+              )}
             </div>
           )}
         </div>
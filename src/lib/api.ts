@@ -3,72 +3,163 @@
 import {
   LayoutData,
   SavedLayout,
+  LayoutRevision,
+  LayoutRevisionSummary,
+  PathRewrite,
   LayoutMode,
   EverythingListResponse,
   EverythingSearchResponse,
+  DirectoryChildrenResponse,
+  ChildPage,
+  FileSearchMode,
+  FileSearchResponse,
+  FileSystemEvent,
+  ApiErrorCode,
+  BackendConfig,
+  FolderOperation,
+  FolderOperationResponse,
+  FolderOperationProgress,
 } from "./types";
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
 
+// Failed backend request. `code` comes from the backend's typed error
+// responses; BACKEND_UNREACHABLE means the request never got an answer.
+export class ApiError extends Error {
+  status: number;
+  code: ApiErrorCode;
+
+  constructor(message: string, status: number, code: ApiErrorCode) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.code = code;
+  }
+}
+
+async function toApiError(
+  response: Response,
+  fallbackMessage: string
+): Promise<ApiError> {
+  try {
+    const body = (await response.json()) as {
+      error?: string;
+      code?: ApiErrorCode;
+    };
+    return new ApiError(
+      body.error || fallbackMessage,
+      response.status,
+      body.code || "INTERNAL"
+    );
+  } catch {
+    return new ApiError(fallbackMessage, response.status, "INTERNAL");
+  }
+}
+
+/**
+ * fetch() that throws an ApiError for network failures and non-2xx responses
+ */
+async function request(
+  url: string,
+  fallbackMessage: string,
+  init?: RequestInit
+): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch {
+    throw new ApiError(
+      `Cannot reach the backend at ${API_BASE_URL}`,
+      0,
+      "BACKEND_UNREACHABLE"
+    );
+  }
+
+  if (!response.ok) {
+    throw await toApiError(response, fallbackMessage);
+  }
+  return response;
+}
+
+export async function fetchConfig(): Promise<BackendConfig> {
+  const response = await request(
+    `${API_BASE_URL}/config`,
+    "Failed to fetch backend config"
+  );
+  return (await response.json()) as BackendConfig;
+}
+
 export interface DirectoryResponse {
   id: string;
   name: string;
   path: string;
   children: DirectoryResponse[];
+  hasChildren?: boolean;
   icon: string;
   color: string;
   position: { x: number; y: number };
   modifiedDate?: string | null;
 }
 
+function setPageParams(params: URLSearchParams, page: ChildPage) {
+  if (typeof page.offset === "number") {
+    params.set("offset", String(page.offset));
+  }
+  if (typeof page.limit === "number") {
+    params.set("limit", String(page.limit));
+  }
+}
+
 export async function fetchDirectory(
-  path?: string
+  path?: string,
+  page: ChildPage = {}
 ): Promise<DirectoryResponse> {
-  const url = path
-    ? `${API_BASE_URL}/directory?path=${encodeURIComponent(path)}`
-    : `${API_BASE_URL}/directory`;
+  const params = new URLSearchParams();
+  if (path) {
+    params.set("path", path);
+  }
+  setPageParams(params, page);
+  const url = `${API_BASE_URL}/directory${
+    params.toString() ? `?${params.toString()}` : ""
+  }`;
 
-  try {
-    const response = await fetch(url, {
-      method: "GET",
-      headers: {
-        "Content-Type": "application/json",
-      },
-    });
+  const response = await request(url, "Failed to fetch directory structure");
+  return (await response.json()) as DirectoryResponse;
+}
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(
-        `Failed to fetch directory structure: ${response.status} ${errorText}`
-      );
-    }
+export async function fetchDirectoryChildren(
+  path: string,
+  page: ChildPage = {},
+  depth = 1
+): Promise<DirectoryChildrenResponse> {
+  const params = new URLSearchParams();
+  params.set("path", path);
+  params.set("depth", String(depth));
+  setPageParams(params, page);
 
-    return (await response.json()) as DirectoryResponse;
-  } catch (error) {
-    throw error;
-  }
+  const response = await request(
+    `${API_BASE_URL}/directory/children?${params.toString()}`,
+    "Failed to fetch folder children"
+  );
+  return (await response.json()) as DirectoryChildrenResponse;
 }
 
 export async function listEverythingChildren(
   path?: string,
-  limit?: number
+  limit?: number,
+  offset?: number
 ): Promise<EverythingListResponse> {
   const params = new URLSearchParams();
   if (path) {
     params.set("path", path);
   }
-  if (typeof limit === "number") {
-    params.set("limit", String(limit));
-  }
+  setPageParams(params, { offset, limit });
 
   const url = `${API_BASE_URL}/connectors/everything/list${
     params.toString() ? `?${params.toString()}` : ""
   }`;
 
-  const response = await fetch(url);
-  if (!response.ok) {
-    throw new Error("Failed to list Everything folder");
-  }
+  const response = await request(url, "Failed to list Everything folder");
   return (await response.json()) as EverythingListResponse;
 }
 
@@ -82,77 +173,206 @@ export async function searchEverything(
     params.set("limit", String(limit));
   }
 
-  const response = await fetch(
-    `${API_BASE_URL}/connectors/everything/search?${params.toString()}`
+  const response = await request(
+    `${API_BASE_URL}/connectors/everything/search?${params.toString()}`,
+    "Failed to search Everything"
   );
-  if (!response.ok) {
-    throw new Error("Failed to search Everything");
-  }
   return (await response.json()) as EverythingSearchResponse;
 }
 
-export async function saveLayout(data: LayoutData): Promise<void> {
-  const response = await fetch(`${API_BASE_URL}/save-layout`, {
+export async function openFolder(folderPath: string): Promise<void> {
+  await request(`${API_BASE_URL}/open-folder`, "Failed to open folder", {
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(data),
+    body: JSON.stringify({ path: folderPath }),
   });
+}
 
-  if (!response.ok) {
-    throw new Error("Failed to save layout");
-  }
+export async function openFolderWith(
+  folderPath: string,
+  actionId: string
+): Promise<void> {
+  await request(`${API_BASE_URL}/open`, "Failed to open folder", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ path: folderPath, action: actionId }),
+  });
 }
 
-export async function openFolder(folderPath: string): Promise<void> {
-  const response = await fetch(`${API_BASE_URL}/open-folder`, {
+export async function indexFolder(folderPath: string): Promise<void> {
+  await request(`${API_BASE_URL}/index`, "Failed to index folder", {
     method: "POST",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify({ path: folderPath }),
   });
+}
 
-  if (!response.ok) {
-    throw new Error("Failed to open folder");
-  }
+// Watches belong to an /events connection, identified by its client ID
+export async function watchFolder(folderPath: string, clientId: string): Promise<void> {
+  await request(`${API_BASE_URL}/watch`, "Failed to watch folder", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ path: folderPath, clientId }),
+  });
 }
 
-export async function searchFiles(query: string): Promise<unknown[]> {
-  const response = await fetch(
-    `${API_BASE_URL}/search?q=${encodeURIComponent(query)}`
+export async function unwatchFolder(folderPath: string, clientId: string): Promise<void> {
+  await request(`${API_BASE_URL}/unwatch`, "Failed to stop watching folder", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ path: folderPath, clientId }),
+  });
+}
+
+async function postFolderOperation(
+  endpoint: string,
+  fallbackMessage: string,
+  body: Record<string, string>
+): Promise<FolderOperationResponse> {
+  const response = await request(`${API_BASE_URL}${endpoint}`, fallbackMessage, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  return (await response.json()) as FolderOperationResponse;
+}
+
+export async function createFolder(
+  parentPath: string,
+  name: string
+): Promise<FolderOperationResponse> {
+  return postFolderOperation("/folders", "Failed to create folder", {
+    parentPath,
+    name,
+  });
+}
+
+export async function renameFolder(
+  folderPath: string,
+  name: string
+): Promise<FolderOperationResponse> {
+  return postFolderOperation("/folders/rename", "Failed to rename folder", {
+    path: folderPath,
+    name,
+  });
+}
+
+// `requestId` tags the progress events of a long move
+export async function moveFolder(
+  folderPath: string,
+  targetPath: string,
+  requestId: string
+): Promise<FolderOperationResponse> {
+  return postFolderOperation("/folders/move", "Failed to move folder", {
+    path: folderPath,
+    targetPath,
+    requestId,
+  });
+}
+
+export async function trashFolder(
+  folderPath: string
+): Promise<FolderOperationResponse> {
+  return postFolderOperation(
+    "/folders/trash",
+    "Failed to move folder to trash",
+    { path: folderPath }
   );
-  if (!response.ok) {
-    throw new Error("Search failed");
+}
+
+export async function undoLastFolderOperation(): Promise<FolderOperationResponse> {
+  return postFolderOperation("/operations/undo", "Failed to undo", {});
+}
+
+export async function fetchFolderOperations(): Promise<FolderOperation[]> {
+  const response = await request(
+    `${API_BASE_URL}/operations`,
+    "Failed to fetch folder operations"
+  );
+  return (await response.json()) as FolderOperation[];
+}
+
+/**
+ * Subscribe to live folder changes pushed by the backend, and optionally to
+ * the progress of long folder moves. `onConnect` gets the client ID of every
+ * (re)connection, to watch roots with. Returns an unsubscribe function.
+ */
+export function subscribeToFileEvents(
+  onEvent: (event: FileSystemEvent) => void,
+  onProgress?: (progress: FolderOperationProgress) => void,
+  onConnect?: (clientId: string) => void
+): () => void {
+  const source = new EventSource(`${API_BASE_URL}/events`);
+  const handleHello = (message: MessageEvent<string>) => {
+    try {
+      onConnect?.((JSON.parse(message.data) as { clientId: string }).clientId);
+    } catch {}
+  };
+  const handleMessage = (message: MessageEvent<string>) => {
+    try {
+      onEvent(JSON.parse(message.data) as FileSystemEvent);
+    } catch {}
+  };
+  const handleProgress = (message: MessageEvent<string>) => {
+    try {
+      onProgress?.(JSON.parse(message.data) as FolderOperationProgress);
+    } catch {}
+  };
+
+  source.addEventListener("hello", handleHello);
+  source.addEventListener("fs", handleMessage);
+  source.addEventListener("progress", handleProgress);
+  return () => {
+    source.removeEventListener("hello", handleHello);
+    source.removeEventListener("fs", handleMessage);
+    source.removeEventListener("progress", handleProgress);
+    source.close();
+  };
+}
+
+export async function searchFiles(
+  query: string,
+  options: {
+    mode?: FileSearchMode;
+    type?: "folder" | "file";
+    roots?: string[];
+    limit?: number;
+  } = {}
+): Promise<FileSearchResponse> {
+  const params = new URLSearchParams();
+  params.set("q", query);
+  if (options.mode) {
+    params.set("mode", options.mode);
   }
-  return (await response.json()) as unknown[];
+  if (options.type) {
+    params.set("type", options.type);
+  }
+  options.roots?.forEach((root) => params.append("root", root));
+  if (typeof options.limit === "number") {
+    params.set("limit", String(options.limit));
+  }
+
+  const response = await request(
+    `${API_BASE_URL}/search?${params.toString()}`,
+    "Search failed"
+  );
+  return (await response.json()) as FileSearchResponse;
 }
 
 export async function getStarredFiles(): Promise<unknown[]> {
-  const response = await fetch(`${API_BASE_URL}/starred-files`);
-  if (!response.ok) {
-    throw new Error("Failed to fetch starred files");
-  }
+  const response = await request(
+    `${API_BASE_URL}/starred-files`,
+    "Failed to fetch starred files"
+  );
   return (await response.json()) as unknown[];
 }
 
 export async function fetchLayouts(): Promise<SavedLayout[]> {
-  try {
-    const response = await fetch(`${API_BASE_URL}/layouts`, {
-      method: "GET",
-      headers: {
-        "Content-Type": "application/json",
-      },
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(
-        `Failed to fetch layouts: ${response.status} ${errorText}`
-      );
-    }
-
-    return (await response.json()) as SavedLayout[];
-  } catch (error) {
-    throw error;
-  }
+  const response = await request(
+    `${API_BASE_URL}/layouts`,
+    "Failed to fetch layouts"
+  );
+  return (await response.json()) as SavedLayout[];
 }
 
 export async function createLayout(payload: {
@@ -160,33 +380,175 @@ export async function createLayout(payload: {
   mode: LayoutMode;
   nodes: LayoutData["nodes"];
   areas: LayoutData["areas"];
+  message?: string;
 }): Promise<SavedLayout> {
-  const response = await fetch(`${API_BASE_URL}/layouts`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(payload),
-  });
-  if (!response.ok) {
-    throw new Error("Failed to create layout");
-  }
+  const response = await request(
+    `${API_BASE_URL}/layouts`,
+    "Failed to create layout",
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    }
+  );
+  return (await response.json()) as SavedLayout;
+}
+
+// Saved layouts are versioned by `updatedAt`; updates send it as If-Match
+// and fail with LAYOUT_CONFLICT when someone else saved in between
+function layoutVersionHeader(updatedAt: string): string {
+  return `"${updatedAt}"`;
+}
+
+export async function updateLayout(
+  layoutId: string,
+  payload: {
+    name?: string;
+    mode: LayoutMode;
+    nodes: LayoutData["nodes"];
+    areas: LayoutData["areas"];
+    message?: string;
+  },
+  updatedAt: string
+): Promise<SavedLayout> {
+  const response = await request(
+    `${API_BASE_URL}/layouts/${layoutId}`,
+    "Failed to save layout",
+    {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+        "If-Match": layoutVersionHeader(updatedAt),
+      },
+      body: JSON.stringify(payload),
+    }
+  );
+  return (await response.json()) as SavedLayout;
+}
+
+// Saves the canvas to `data.layoutId` (at version `updatedAt`) or, without
+// one, to the scratch layout
+export async function autosaveLayout(
+  data: LayoutData,
+  updatedAt?: string
+): Promise<SavedLayout> {
+  const response = await request(
+    `${API_BASE_URL}/save-layout`,
+    "Failed to save layout",
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(updatedAt ? { "If-Match": layoutVersionHeader(updatedAt) } : {}),
+      },
+      body: JSON.stringify(data),
+    }
+  );
+  return (await response.json()) as SavedLayout;
+}
+
+export async function renameLayoutRequest(
+  layoutId: string,
+  name: string,
+  updatedAt: string
+): Promise<SavedLayout> {
+  const response = await request(
+    `${API_BASE_URL}/layouts/${layoutId}`,
+    "Failed to rename layout",
+    {
+      method: "PATCH",
+      headers: {
+        "Content-Type": "application/json",
+        "If-Match": layoutVersionHeader(updatedAt),
+      },
+      body: JSON.stringify({ name }),
+    }
+  );
+  return (await response.json()) as SavedLayout;
+}
+
+export async function duplicateLayoutRequest(
+  layoutId: string,
+  name?: string
+): Promise<SavedLayout> {
+  const response = await request(
+    `${API_BASE_URL}/layouts/${layoutId}/duplicate`,
+    "Failed to duplicate layout",
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name }),
+    }
+  );
   return (await response.json()) as SavedLayout;
 }
 
 export async function getLayout(layoutId: string): Promise<SavedLayout> {
-  const response = await fetch(`${API_BASE_URL}/layouts/${layoutId}`);
-  if (!response.ok) {
-    throw new Error("Failed to fetch layout");
-  }
+  const response = await request(
+    `${API_BASE_URL}/layouts/${layoutId}`,
+    "Failed to fetch layout"
+  );
+  return (await response.json()) as SavedLayout;
+}
+
+// The backend checks the file and remaps IDs; see backend/layout-file.js
+export async function importLayoutRequest(
+  file: unknown,
+  rewrite?: PathRewrite
+): Promise<SavedLayout> {
+  const response = await request(
+    `${API_BASE_URL}/layouts/import`,
+    "Failed to import layout",
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ file, rewrite }),
+    }
+  );
+  return (await response.json()) as SavedLayout;
+}
+
+export async function fetchLayoutRevisions(
+  layoutId: string
+): Promise<LayoutRevisionSummary[]> {
+  const response = await request(
+    `${API_BASE_URL}/layouts/${layoutId}/revisions`,
+    "Failed to load layout history"
+  );
+  return (await response.json()) as LayoutRevisionSummary[];
+}
+
+export async function getLayoutRevision(
+  layoutId: string,
+  revisionId: string
+): Promise<LayoutRevision> {
+  const response = await request(
+    `${API_BASE_URL}/layouts/${layoutId}/revisions/${revisionId}`,
+    "Failed to fetch revision"
+  );
+  return (await response.json()) as LayoutRevision;
+}
+
+export async function restoreLayoutRevisionRequest(
+  layoutId: string,
+  revisionId: string,
+  updatedAt: string
+): Promise<SavedLayout> {
+  const response = await request(
+    `${API_BASE_URL}/layouts/${layoutId}/revisions/${revisionId}/restore`,
+    "Failed to restore layout",
+    {
+      method: "POST",
+      headers: { "If-Match": layoutVersionHeader(updatedAt) },
+    }
+  );
   return (await response.json()) as SavedLayout;
 }
 
 export async function deleteLayoutRequest(layoutId: string): Promise<void> {
-  const response = await fetch(`${API_BASE_URL}/layouts/${layoutId}`, {
+  await request(`${API_BASE_URL}/layouts/${layoutId}`, "Failed to delete layout", {
     method: "DELETE",
   });
-  if (!response.ok) {
-    throw new Error("Failed to delete layout");
-  }
 }
 
 export interface Drive {
@@ -196,23 +558,9 @@ export interface Drive {
 }
 
 export async function fetchDrives(): Promise<Drive[]> {
-  try {
-    const response = await fetch(`${API_BASE_URL}/drives`, {
-      method: "GET",
-      headers: {
-        "Content-Type": "application/json",
-      },
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(
-        `Failed to fetch drives: ${response.status} ${errorText}`
-      );
-    }
-
-    return (await response.json()) as Drive[];
-  } catch (error) {
-    throw error;
-  }
+  const response = await request(
+    `${API_BASE_URL}/drives`,
+    "Failed to fetch drives"
+  );
+  return (await response.json()) as Drive[];
 }
@@ -2,6 +2,25 @@
 
 import { FolderNode, Area, Position } from './types';
 
+// Room around an area's folders, with extra room at the top for its label
+const AREA_PADDING = 20;
+const AREA_LABEL_HEIGHT = 36;
+// Each area nested inside another leaves this much more room to its parent
+const NESTED_AREA_PADDING = 16;
+// Used until ReactFlow has measured a node; matches FolderNode's box
+const DEFAULT_NODE_WIDTH = 140;
+const DEFAULT_NODE_HEIGHT = 50;
+
+// A canvas node as the bounds see it; width and height are set once measured
+interface AreaBoundsNode {
+  id: string;
+  position: Position;
+  width?: number | null;
+  height?: number | null;
+  hidden?: boolean;
+  data?: { parentId?: string };
+}
+
 /**
  * Create an area from a parent node and all its descendants
  */
@@ -37,14 +56,20 @@ function getAllDescendantIds(node: FolderNode): string[] {
 }
 
 /**
- * Calculate area bounds from node positions
+ * Calculate area bounds from the positions and measured sizes of the nodes
+ * on the canvas. Hidden nodes are left out; "+N more" stubs count with the
+ * folder they hang from.
  */
 export function calculateAreaBounds(
   area: Area,
-  nodes: { id: string; position: Position }[]
+  nodes: AreaBoundsNode[],
+  padding = AREA_PADDING
 ): { position: Position; size: { width: number; height: number } } {
-  const areaNodes = nodes.filter((n) => area.nodes.includes(n.id));
-  
+  const ids = new Set(area.nodes);
+  const areaNodes = nodes.filter(
+    (n) => !n.hidden && (ids.has(n.id) || (!!n.data?.parentId && ids.has(n.data.parentId)))
+  );
+
   if (areaNodes.length === 0) {
     return {
       position: area.position,
@@ -53,19 +78,53 @@ export function calculateAreaBounds(
   }
 
   const minX = Math.min(...areaNodes.map((n) => n.position.x));
-  const maxX = Math.max(...areaNodes.map((n) => n.position.x));
+  const maxX = Math.max(...areaNodes.map((n) => n.position.x + (n.width ?? DEFAULT_NODE_WIDTH)));
   const minY = Math.min(...areaNodes.map((n) => n.position.y));
-  const maxY = Math.max(...areaNodes.map((n) => n.position.y));
+  const maxY = Math.max(...areaNodes.map((n) => n.position.y + (n.height ?? DEFAULT_NODE_HEIGHT)));
 
   return {
     position: {
-      x: minX - 20,
-      y: minY - 20,
+      x: minX - padding,
+      y: minY - padding - AREA_LABEL_HEIGHT,
     },
     size: {
-      width: maxX - minX + 240, // Add padding and node width
-      height: maxY - minY + 120, // Add padding and node height
+      width: maxX - minX + padding * 2,
+      height: maxY - minY + padding * 2 + AREA_LABEL_HEIGHT,
     },
   };
 }
 
+/**
+ * Areas with bounds recomputed from the nodes on the canvas, outermost
+ * first so nested areas are drawn on top of the areas containing them.
+ * An area is nested in another when that area lists its folder.
+ */
+export function getLiveAreas(areas: Area[], nodes: AreaBoundsNode[]): Area[] {
+  const nodeSets = new Map(areas.map((area) => [area.id, new Set(area.nodes)]));
+  const contains = (outer: Area, inner: Area) =>
+    outer.id !== inner.id && !!nodeSets.get(outer.id)?.has(inner.id);
+
+  // How many areas each area sits in, and how deep the areas inside it go
+  const depths = new Map(
+    areas.map((area) => [area.id, areas.filter((other) => contains(other, area)).length])
+  );
+  const levelsInside = (area: Area): number =>
+    Math.max(
+      0,
+      ...areas
+        .filter((other) => contains(area, other))
+        .map((other) => depths.get(other.id)! - depths.get(area.id)!)
+    );
+
+  return [...areas]
+    .sort((a, b) => depths.get(a.id)! - depths.get(b.id)!)
+    .map((area) => ({
+      ...area,
+      ...calculateAreaBounds(
+        area,
+        nodes,
+        AREA_PADDING + levelsInside(area) * (NESTED_AREA_PADDING + AREA_LABEL_HEIGHT)
+      ),
+    }));
+}
+
@@ -0,0 +1,54 @@
+// Links that open a saved layout at a folder and viewport
+// Everything goes in query parameters (?layout=…&node=…&x=…&y=…&zoom=…) so
+// the app stays a single page.
+
+import { DeepLink } from "./types";
+
+function readNumber(params: URLSearchParams, name: string): number {
+  const value = params.get(name)?.trim();
+  return value ? Number(value) : NaN;
+}
+
+/**
+ * Link to `link` on the page at `base` (the current page by default)
+ */
+export function createDeepLink(
+  link: DeepLink,
+  base = window.location.href
+): string {
+  const url = new URL(base);
+  url.search = "";
+  url.hash = "";
+  if (link.layoutId) {
+    url.searchParams.set("layout", link.layoutId);
+  }
+  if (link.nodePath) {
+    url.searchParams.set("node", link.nodePath);
+  }
+  if (link.viewport) {
+    url.searchParams.set("x", String(Math.round(link.viewport.x)));
+    url.searchParams.set("y", String(Math.round(link.viewport.y)));
+    url.searchParams.set("zoom", String(Number(link.viewport.zoom.toFixed(3))));
+  }
+  return url.toString();
+}
+
+/**
+ * The deep link in a query string, or null when it has none. A viewport
+ * needs all of x, y and zoom.
+ */
+export function readDeepLink(search: string): DeepLink | null {
+  const params = new URLSearchParams(search);
+  const layoutId = params.get("layout") || undefined;
+  const nodePath = params.get("node") || undefined;
+  const x = readNumber(params, "x");
+  const y = readNumber(params, "y");
+  const zoom = readNumber(params, "zoom");
+  const viewport =
+    Number.isFinite(x) && Number.isFinite(y) && zoom > 0
+      ? { x, y, zoom }
+      : undefined;
+
+  if (!layoutId && !nodePath && !viewport) return null;
+  return { layoutId, nodePath, viewport };
+}
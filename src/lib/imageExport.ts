@@ -0,0 +1,213 @@
+// Render the canvas to a standalone SVG (and from there to PNG)
+// Draws nodes, edges and area backgrounds from their positions instead of
+// copying the DOM, so the image has no animations, handles or controls.
+
+import { Edge, Node, Position as HandlePosition, getBezierPath } from 'reactflow';
+import { Area, FolderNodeVisualData } from './types';
+
+export interface ImageRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// The theme colors the image is drawn with, read from the CSS variables
+export interface ImageTheme {
+  background: string;
+  surface: string;
+  border: string;
+  text: string;
+  textMuted: string;
+  fontFamily: string;
+}
+
+// Matches FolderNode's w-[140px] box
+const DEFAULT_NODE_WIDTH = 140;
+const DEFAULT_NODE_HEIGHT = 50;
+// Roughly what fits next to the icon at text-xs
+const MAX_LABEL_CHARS = 16;
+// Same look as AnimatedDashedEdge, without the animation
+const EDGE_STROKE = 'rgba(148, 163, 184, 0.5)';
+const EDGE_DASH = '8 4';
+
+/**
+ * Read the current theme's colors from the CSS variables on <html>
+ */
+export function readImageTheme(): ImageTheme {
+  const styles = getComputedStyle(document.documentElement);
+  const read = (name: string, fallback: string) =>
+    styles.getPropertyValue(name).trim() || fallback;
+  return {
+    background: read('--color-app-bg', '#f8fafc'),
+    surface: read('--color-surface', '#ffffff'),
+    border: read('--color-border', 'rgba(15, 23, 42, 0.08)'),
+    text: read('--color-text', '#0f172a'),
+    textMuted: read('--color-text-muted', '#475569'),
+    fontFamily: getComputedStyle(document.body).fontFamily || 'sans-serif',
+  };
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function truncate(value: string, maxChars: number): string {
+  return value.length > maxChars ? `${value.slice(0, maxChars - 1)}…` : value;
+}
+
+function getNodeSize(node: Node) {
+  return {
+    width: node.width ?? DEFAULT_NODE_WIDTH,
+    height: node.height ?? DEFAULT_NODE_HEIGHT,
+  };
+}
+
+// Dark text on light node colors, white on dark ones, as in FolderNode
+function getLabelColor(background: string): string {
+  const hex = background.replace('#', '');
+  if (hex.length !== 6) return '#1f2937';
+  const r = parseInt(hex.substring(0, 2), 16);
+  const g = parseInt(hex.substring(2, 4), 16);
+  const b = parseInt(hex.substring(4, 6), 16);
+  return (0.299 * r + 0.587 * g + 0.114 * b) / 255 > 0.5 ? '#1f2937' : '#ffffff';
+}
+
+/**
+ * Bounding box of all visible nodes and areas, with some padding
+ */
+export function getGraphBounds(nodes: Node[], areas: Area[], padding = 40): ImageRect | null {
+  const rects = [
+    ...nodes
+      .filter((node) => !node.hidden)
+      .map((node) => ({ ...node.position, ...getNodeSize(node) })),
+    ...areas.map((area) => ({ ...area.position, ...area.size })),
+  ];
+  if (rects.length === 0) return null;
+
+  const minX = Math.min(...rects.map((rect) => rect.x));
+  const minY = Math.min(...rects.map((rect) => rect.y));
+  const maxX = Math.max(...rects.map((rect) => rect.x + rect.width));
+  const maxY = Math.max(...rects.map((rect) => rect.y + rect.height));
+  return {
+    x: minX - padding,
+    y: minY - padding,
+    width: maxX - minX + padding * 2,
+    height: maxY - minY + padding * 2,
+  };
+}
+
+function renderArea(area: Area, index: number, theme: ImageTheme): string {
+  const { x, y } = area.position;
+  const { width, height } = area.size;
+  // Same gradient as AreaGroup
+  return `
+  <linearGradient id="area-${index}" x1="0" y1="0" x2="1" y2="0.6">
+    <stop offset="0" stop-color="${escapeXml(area.color)}" stop-opacity="0.33" />
+    <stop offset="1" stop-color="#ffffff" stop-opacity="0.85" />
+  </linearGradient>
+  <rect x="${x}" y="${y}" width="${width}" height="${height}" rx="32" fill="url(#area-${index})" stroke="${theme.border}" />
+  <rect x="${x + 4}" y="${y + 4}" width="${Math.max(width - 8, 0)}" height="${Math.max(height - 8, 0)}" rx="28" fill="none" stroke="#ffffff" stroke-opacity="0.3" stroke-width="2" stroke-dasharray="6 4" />
+  <text x="${x + 20}" y="${y + 32}" font-size="12" font-weight="600" fill="${theme.text}">${escapeXml(area.name)}</text>`;
+}
+
+function renderEdge(edge: Edge, nodesById: Map<string, Node>): string {
+  const source = nodesById.get(edge.source);
+  const target = nodesById.get(edge.target);
+  if (!source || !target) return '';
+
+  const sourceSize = getNodeSize(source);
+  const targetSize = getNodeSize(target);
+  const [path] = getBezierPath({
+    sourceX: source.position.x + sourceSize.width,
+    sourceY: source.position.y + sourceSize.height / 2,
+    sourcePosition: HandlePosition.Right,
+    targetX: target.position.x,
+    targetY: target.position.y + targetSize.height / 2,
+    targetPosition: HandlePosition.Left,
+    curvature: 0.2,
+  });
+  return `
+  <path d="${path}" fill="none" stroke="${EDGE_STROKE}" stroke-width="1" stroke-dasharray="${EDGE_DASH}" />`;
+}
+
+function renderNode(node: Node<FolderNodeVisualData>): string {
+  const { x, y } = node.position;
+  const { width, height } = getNodeSize(node);
+  const color = node.data.color || '#ffffff';
+  const label = truncate(node.data.label, MAX_LABEL_CHARS);
+  const missing = node.data.isMissing;
+  return `
+  <g${missing ? ' opacity="0.6"' : ''}>
+    <rect x="${x}" y="${y}" width="${width}" height="${height}" rx="8" fill="${escapeXml(color)}" stroke="#e5e7eb"${missing ? ' stroke-dasharray="4 3"' : ''} />
+    <text x="${x + 10}" y="${y + height / 2}" dominant-baseline="central" font-size="16">${escapeXml(node.data.icon)}</text>
+    <text x="${x + 36}" y="${y + height / 2}" dominant-baseline="central" font-size="12" font-weight="500" fill="${getLabelColor(color)}"${missing ? ' text-decoration="line-through"' : ''}>${escapeXml(label)}</text>
+  </g>`;
+}
+
+/**
+ * Draw the part of the graph inside `bounds` as an SVG document
+ */
+export function renderGraphSvg({
+  nodes,
+  edges,
+  areas,
+  bounds,
+  theme,
+}: {
+  nodes: Node<FolderNodeVisualData>[];
+  edges: Edge[];
+  areas: Area[];
+  bounds: ImageRect;
+  theme: ImageTheme;
+}): string {
+  const visibleNodes = nodes.filter((node) => !node.hidden);
+  const nodesById = new Map(visibleNodes.map((node) => [node.id, node]));
+  const { x, y, width, height } = bounds;
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${x} ${y} ${width} ${height}" font-family="${escapeXml(theme.fontFamily)}">
+  <rect x="${x}" y="${y}" width="${width}" height="${height}" fill="${theme.background}" />${areas
+    .map((area, index) => renderArea(area, index, theme))
+    .join('')}${edges
+    .filter((edge) => !edge.hidden)
+    .map((edge) => renderEdge(edge, nodesById))
+    .join('')}${visibleNodes.map(renderNode).join('')}
+</svg>`;
+}
+
+/**
+ * Rasterize an SVG document at `scale` times its size
+ */
+export function svgToPng(svg: string, width: number, height: number, scale: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(width * scale);
+      canvas.height = Math.round(height * scale);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        URL.revokeObjectURL(url);
+        reject(new Error('Canvas is not available'));
+        return;
+      }
+      context.scale(scale, scale);
+      context.drawImage(image, 0, 0, width, height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob(
+        (blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode PNG'))),
+        'image/png'
+      );
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Failed to render SVG'));
+    };
+    image.src = url;
+  });
+}
@@ -0,0 +1,86 @@
+// Utility functions for comparing two arrangements of the canvas
+
+import { FolderNode, Area, LayoutDiff } from './types';
+import { calculateDistance, createNodeId } from './utils';
+
+// Positions closer than this count as unchanged
+const MOVE_TOLERANCE = 1;
+
+/**
+ * Index a node tree by path-derived ID, so layouts saved before IDs were
+ * derived from paths still line up with the canvas. `idMap` collects the
+ * saved ID of each node.
+ */
+function indexNodes(
+  nodes: FolderNode[],
+  index: Map<string, FolderNode>,
+  idMap: Map<string, string>
+) {
+  nodes.forEach((node) => {
+    const key = createNodeId(node.connector ?? 'local-fs', node.path);
+    index.set(key, node);
+    idMap.set(node.id, key);
+    indexNodes(node.children ?? [], index, idMap);
+  });
+}
+
+function describeArea(area: Area, idMap: Map<string, string>): string {
+  return JSON.stringify([
+    area.name,
+    area.color,
+    Math.round(area.position.x),
+    Math.round(area.position.y),
+    Math.round(area.size.width),
+    Math.round(area.size.height),
+    area.nodes.map((id) => idMap.get(id) ?? id).sort(),
+  ]);
+}
+
+/**
+ * Summarize how `next` differs from `previous`: folders that moved or
+ * changed color, folders only on one side, and areas that were added,
+ * removed or changed
+ */
+export function diffLayouts(
+  previous: { nodes: FolderNode[]; areas: Area[] },
+  next: { nodes: FolderNode[]; areas: Area[] }
+): LayoutDiff {
+  const before = new Map<string, FolderNode>();
+  const after = new Map<string, FolderNode>();
+  const beforeIds = new Map<string, string>();
+  const afterIds = new Map<string, string>();
+  indexNodes(previous.nodes, before, beforeIds);
+  indexNodes(next.nodes, after, afterIds);
+
+  const diff: LayoutDiff = { moved: [], recolored: [], added: [], removed: [], areasChanged: [] };
+  after.forEach((node, key) => {
+    const old = before.get(key);
+    if (!old) {
+      diff.added.push(node.path);
+      return;
+    }
+    if (calculateDistance(old.position, node.position) > MOVE_TOLERANCE) {
+      diff.moved.push(node.path);
+    }
+    if (old.color !== node.color) {
+      diff.recolored.push(node.path);
+    }
+  });
+  before.forEach((node, key) => {
+    if (!after.has(key)) {
+      diff.removed.push(node.path);
+    }
+  });
+
+  const areasBefore = new Map(previous.areas.map((area) => [area.id, area]));
+  next.areas.forEach((area) => {
+    const old = areasBefore.get(area.id);
+    if (!old || describeArea(old, beforeIds) !== describeArea(area, afterIds)) {
+      diff.areasChanged.push(area.name);
+    }
+    areasBefore.delete(area.id);
+  });
+  areasBefore.forEach((area) => diff.areasChanged.push(area.name));
+
+  return diff;
+}
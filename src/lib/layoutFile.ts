@@ -0,0 +1,44 @@
+// Portable layout files
+// Mirrors the format read by backend/layout-file.js
+
+import { LayoutFile, LayoutViewport, SavedLayout } from "./types";
+
+export const LAYOUT_FILE_FORMAT = "folder-explorer-layout";
+export const LAYOUT_FILE_VERSION = 1;
+export const LAYOUT_FILE_EXTENSION = ".layout.json";
+
+/**
+ * Wrap a saved layout for export, with the canvas viewport when known
+ */
+export function createLayoutFile(
+  layout: SavedLayout,
+  viewport?: LayoutViewport
+): LayoutFile {
+  return {
+    format: LAYOUT_FILE_FORMAT,
+    version: LAYOUT_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    layout: {
+      id: layout.id,
+      name: layout.name,
+      mode: layout.mode,
+      nodes: layout.nodes,
+      areas: layout.areas,
+      viewport: viewport ?? layout.viewport,
+      createdAt: layout.createdAt,
+      updatedAt: layout.updatedAt,
+    },
+  };
+}
+
+/**
+ * The folder paths at the top of a layout file, to suggest a path rewrite.
+ * Empty when the file does not look like a layout file.
+ */
+export function getLayoutFileRootPaths(file: unknown): string[] {
+  const layout = (file as Partial<LayoutFile> | null)?.layout;
+  if (!layout || !Array.isArray(layout.nodes)) return [];
+  return layout.nodes
+    .map((node) => node?.path)
+    .filter((path): path is string => typeof path === "string");
+}
@@ -0,0 +1,171 @@
+// Text exports of the folder tree
+// Markdown and OPML keep the nesting; Mermaid and Graphviz DOT draw it as a
+// graph, with areas as clusters. All of them are plain text that diffs well.
+
+import { Area, FolderNode } from "./types";
+
+export type TreeExportFormat = "markdown" | "opml" | "mermaid" | "dot";
+
+export interface TreeExportOptions {
+  expandedOnly: boolean; // Skip the children of collapsed folders
+  title?: string;
+}
+
+export interface TreeExport {
+  content: string;
+  extension: string;
+  mimeType: string;
+}
+
+// A node as exported, with a short ID that is valid in every format
+interface ExportedNode {
+  key: string;
+  node: FolderNode;
+  depth: number;
+  parentKey: string | null;
+}
+
+function flattenTree(
+  nodes: FolderNode[],
+  { expandedOnly }: TreeExportOptions
+): ExportedNode[] {
+  const result: ExportedNode[] = [];
+  const visit = (node: FolderNode, depth: number, parentKey: string | null) => {
+    const key = `n${result.length}`;
+    result.push({ key, node, depth, parentKey });
+    if (expandedOnly && !node.expanded) return;
+    (node.children ?? []).forEach((child) => visit(child, depth + 1, key));
+  };
+  nodes.forEach((node) => visit(node, 0, null));
+  return result;
+}
+
+// Each exported node goes into the first area that lists it; Mermaid and DOT
+// cannot draw one node in two clusters
+function groupByArea(exported: ExportedNode[], areas: Area[]) {
+  const keysById = new Map(exported.map((entry) => [entry.node.id, entry.key]));
+  const assigned = new Set<string>();
+  return areas
+    .map((area) => {
+      const keys = area.nodes
+        .map((id) => keysById.get(id))
+        .filter((key): key is string => !!key && !assigned.has(key));
+      keys.forEach((key) => assigned.add(key));
+      return { area, keys };
+    })
+    .filter(({ keys }) => keys.length > 0);
+}
+
+function label(node: FolderNode): string {
+  return node.icon ? `${node.icon} ${node.name}` : node.name;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function toMarkdown(exported: ExportedNode[], options: TreeExportOptions): string {
+  const lines = exported.map(
+    ({ node, depth }) => `${"  ".repeat(depth)}- ${label(node)}${depth === 0 ? ` (\`${node.path}\`)` : ""}`
+  );
+  return `${options.title ? `# ${options.title}\n\n` : ""}${lines.join("\n")}\n`;
+}
+
+function toOpml(exported: ExportedNode[], options: TreeExportOptions): string {
+  const lines: string[] = [];
+  exported.forEach((entry, index) => {
+    const next = exported[index + 1];
+    const indent = "  ".repeat(entry.depth + 2);
+    const attributes = `text="${escapeXml(entry.node.name)}" path="${escapeXml(entry.node.path)}" icon="${escapeXml(entry.node.icon)}" color="${escapeXml(entry.node.color)}"`;
+    if (next && next.depth > entry.depth) {
+      lines.push(`${indent}<outline ${attributes}>`);
+      return;
+    }
+    lines.push(`${indent}<outline ${attributes} />`);
+    // Close every outline that ends here
+    for (let depth = entry.depth - 1; depth >= (next?.depth ?? 0); depth--) {
+      lines.push(`${"  ".repeat(depth + 2)}</outline>`);
+    }
+  });
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<opml version="2.0">
+  <head>
+    <title>${escapeXml(options.title ?? "Folders")}</title>
+  </head>
+  <body>
+${lines.join("\n")}
+  </body>
+</opml>
+`;
+}
+
+function toMermaid(exported: ExportedNode[], areas: Area[]): string {
+  const quote = (value: string) => `"${value.replace(/"/g, "#quot;")}"`;
+  const lines = ["graph LR"];
+  exported.forEach(({ key, node }) => lines.push(`  ${key}[${quote(label(node))}]`));
+  groupByArea(exported, areas).forEach(({ area, keys }, index) => {
+    lines.push(`  subgraph area${index}[${quote(area.name)}]`);
+    keys.forEach((key) => lines.push(`    ${key}`));
+    lines.push("  end");
+    lines.push(`  style area${index} fill:${area.color}`);
+  });
+  exported.forEach(({ key, parentKey }) => {
+    if (parentKey) lines.push(`  ${parentKey} --> ${key}`);
+  });
+  exported.forEach(({ key, node }) => {
+    if (node.color) lines.push(`  style ${key} fill:${node.color}`);
+  });
+  return `${lines.join("\n")}\n`;
+}
+
+function toDot(exported: ExportedNode[], areas: Area[], options: TreeExportOptions): string {
+  const quote = (value: string) => `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+  const lines = [
+    `digraph ${quote(options.title ?? "folders")} {`,
+    "  rankdir=LR;",
+    '  node [shape=box, style="rounded,filled", fillcolor="#ffffff", fontname="sans-serif"];',
+  ];
+  exported.forEach(({ key, node }) => {
+    const color = node.color ? `, fillcolor=${quote(node.color)}` : "";
+    lines.push(`  ${key} [label=${quote(label(node))}, tooltip=${quote(node.path)}${color}];`);
+  });
+  groupByArea(exported, areas).forEach(({ area, keys }, index) => {
+    lines.push(`  subgraph cluster_${index} {`);
+    lines.push(`    label=${quote(area.name)};`);
+    lines.push(`    style="rounded,filled";`);
+    lines.push(`    fillcolor=${quote(area.color)};`);
+    lines.push(`    ${keys.join("; ")};`);
+    lines.push("  }");
+  });
+  exported.forEach(({ key, parentKey }) => {
+    if (parentKey) lines.push(`  ${parentKey} -> ${key};`);
+  });
+  lines.push("}");
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Export the folder tree in one of the text formats
+ */
+export function exportTree(
+  format: TreeExportFormat,
+  nodes: FolderNode[],
+  areas: Area[],
+  options: TreeExportOptions
+): TreeExport {
+  const exported = flattenTree(nodes, options);
+  switch (format) {
+    case "markdown":
+      return { content: toMarkdown(exported, options), extension: "md", mimeType: "text/markdown" };
+    case "opml":
+      return { content: toOpml(exported, options), extension: "opml", mimeType: "text/x-opml" };
+    case "mermaid":
+      return { content: toMermaid(exported, areas), extension: "mmd", mimeType: "text/plain" };
+    case "dot":
+      return { content: toDot(exported, areas, options), extension: "dot", mimeType: "text/vnd.graphviz" };
+  }
+}
@@ -0,0 +1,354 @@
+// Tree layouts for the canvas
+// Pure computations, so they can run in a Web Worker (treeLayout.worker.ts)
+// as well as on the main thread.
+
+import dagre from "dagre";
+import { LayoutAlgorithm, Position } from "./types";
+
+export interface TreeLayoutRequest {
+  algorithm: LayoutAlgorithm;
+  spacing: number; // Multiplies the algorithm's gaps; 1 is the default
+  nodes: { id: string }[];
+  edges: { source: string; target: string }[];
+  preservePositions: boolean;
+  preservedIds: string[]; // Laid out around, not moved, when preservePositions is set
+  nodeSize: { width: number; height: number };
+}
+
+// New top-left positions by node ID; nodes that are not moved are left out
+export type TreeLayoutPositions = Record<string, Position>;
+
+type LayoutNode = TreeLayoutRequest["nodes"][number];
+type LayoutEdge = TreeLayoutRequest["edges"][number];
+type NodeSize = TreeLayoutRequest["nodeSize"];
+
+// Gap between trees of a forest in the compact and radial layouts
+const FOREST_GAP = 120;
+// Force-directed layout: rounds of the simulation and how much work they may take
+const FORCE_MAX_ITERATIONS = 200;
+const FORCE_MIN_ITERATIONS = 20;
+const FORCE_PAIR_BUDGET = 20_000_000;
+
+function runDagre(
+  nodes: LayoutNode[],
+  edges: LayoutEdge[],
+  nodeSize: NodeSize,
+  rankdir: "LR" | "TB",
+  spacing: { nodesep: number; ranksep: number }
+): TreeLayoutPositions {
+  const dagreGraph = new dagre.graphlib.Graph();
+  dagreGraph.setDefaultEdgeLabel(() => ({}));
+
+  dagreGraph.setGraph({
+    rankdir,
+    align: "UL",
+    ...spacing,
+    edgesep: 10,
+    acyclicer: "greedy",
+    ranker: "tight-tree",
+  });
+
+  nodes.forEach((node) => {
+    dagreGraph.setNode(node.id, { ...nodeSize });
+  });
+
+  edges.forEach((edge) => {
+    dagreGraph.setEdge(edge.source, edge.target);
+  });
+
+  dagre.layout(dagreGraph);
+
+  const positions: TreeLayoutPositions = {};
+  nodes.forEach((node) => {
+    const nodeWithPosition = dagreGraph.node(node.id);
+    if (nodeWithPosition) {
+      positions[node.id] = {
+        x: nodeWithPosition.x - nodeSize.width / 2,
+        y: nodeWithPosition.y - nodeSize.height / 2,
+      };
+    }
+  });
+  return positions;
+}
+
+// dagre gaps: wider for bigger trees, unless only part of the tree is laid out
+function getDagreSpacing(
+  nodes: LayoutNode[],
+  edges: LayoutEdge[],
+  partial: boolean,
+  scale: number
+) {
+  if (partial) {
+    return { nodesep: 80 * scale, ranksep: 60 * scale };
+  }
+  const childCounts = new Map<string, number>();
+  edges.forEach((edge) => {
+    childCounts.set(edge.source, (childCounts.get(edge.source) ?? 0) + 1);
+  });
+  const totalNodes = nodes.length;
+  const maxChildren = Math.max(...childCounts.values(), 0);
+  return {
+    nodesep: (totalNodes > 50 ? 100 : totalNodes > 20 ? 80 : 60) * scale,
+    ranksep: (maxChildren > 10 ? 80 : maxChildren > 5 ? 60 : 40) * scale,
+  };
+}
+
+// Roots and children of the forest the edges describe, in node order
+function buildForest(nodes: LayoutNode[], edges: LayoutEdge[]) {
+  const ids = new Set(nodes.map((node) => node.id));
+  const children = new Map<string, string[]>();
+  const hasParent = new Set<string>();
+  edges.forEach((edge) => {
+    if (!ids.has(edge.source) || !ids.has(edge.target)) return;
+    if (hasParent.has(edge.target)) return;
+    hasParent.add(edge.target);
+    children.set(edge.source, [...(children.get(edge.source) ?? []), edge.target]);
+  });
+  const roots = nodes.map((node) => node.id).filter((id) => !hasParent.has(id));
+  return { roots, children };
+}
+
+/**
+ * Tidy tree: leaves stacked one below the other, each parent centered on
+ * its children. Uses less room than dagre on wide, shallow folders.
+ */
+function layoutCompact(
+  nodes: LayoutNode[],
+  edges: LayoutEdge[],
+  nodeSize: NodeSize,
+  scale: number
+): TreeLayoutPositions {
+  const { roots, children } = buildForest(nodes, edges);
+  const rowHeight = nodeSize.height + 12 * scale;
+  const columnWidth = nodeSize.width + 60 * scale;
+  const positions: TreeLayoutPositions = {};
+  const visited = new Set<string>();
+  let nextRow = 0;
+
+  // Returns the row the node is centered on
+  const place = (id: string, depth: number): number => {
+    visited.add(id);
+    const kids = (children.get(id) ?? []).filter((child) => !visited.has(child));
+    let row: number;
+    if (kids.length === 0) {
+      row = nextRow++;
+    } else {
+      const rows = kids.map((child) => place(child, depth + 1));
+      row = (rows[0] + rows[rows.length - 1]) / 2;
+    }
+    positions[id] = { x: depth * columnWidth, y: row * rowHeight };
+    return row;
+  };
+
+  roots.forEach((root) => {
+    place(root, 0);
+    nextRow += (FOREST_GAP * scale) / rowHeight;
+  });
+  return positions;
+}
+
+/**
+ * Mind map: each root in the middle of its own circle, with every level of
+ * folders on a ring around it. Subtrees get a slice of the ring as wide as
+ * their number of leaves.
+ */
+function layoutRadial(
+  nodes: LayoutNode[],
+  edges: LayoutEdge[],
+  nodeSize: NodeSize,
+  scale: number
+): TreeLayoutPositions {
+  const { roots, children } = buildForest(nodes, edges);
+  const positions: TreeLayoutPositions = {};
+  const visited = new Set<string>();
+  let offsetX = 0;
+
+  roots.forEach((root) => {
+    // Leaves below each node, and the depth of the tree
+    const leaves = new Map<string, number>();
+    let maxDepth = 0;
+    const count = (id: string, depth: number): number => {
+      visited.add(id);
+      maxDepth = Math.max(maxDepth, depth);
+      const kids = (children.get(id) ?? []).filter((child) => !visited.has(child));
+      children.set(id, kids);
+      const total = kids.reduce((sum, child) => sum + count(child, depth + 1), 0);
+      leaves.set(id, Math.max(total, 1));
+      return leaves.get(id)!;
+    };
+    const totalLeaves = count(root, 0);
+
+    // Rings far enough apart for the node width, and the outer ring long
+    // enough to fit every leaf
+    const minStep = nodeSize.width + 80 * scale;
+    const crowdedStep =
+      maxDepth > 0
+        ? (totalLeaves * (nodeSize.height + 20 * scale)) / (2 * Math.PI * maxDepth)
+        : 0;
+    const ringStep = Math.max(minStep, crowdedStep);
+
+    const centers = new Map<string, Position>();
+    const place = (id: string, depth: number, start: number, end: number) => {
+      const angle = (start + end) / 2;
+      const radius = depth * ringStep;
+      centers.set(id, { x: Math.cos(angle) * radius, y: Math.sin(angle) * radius });
+      let cursor = start;
+      (children.get(id) ?? []).forEach((child) => {
+        const share = ((end - start) * leaves.get(child)!) / leaves.get(id)!;
+        place(child, depth + 1, cursor, cursor + share);
+        cursor += share;
+      });
+    };
+    place(root, 0, 0, 2 * Math.PI);
+
+    // Trees of a forest sit side by side
+    const radius = maxDepth * ringStep;
+    centers.forEach((center, id) => {
+      positions[id] = {
+        x: offsetX + radius + center.x - nodeSize.width / 2,
+        y: center.y - nodeSize.height / 2,
+      };
+    });
+    offsetX += 2 * radius + nodeSize.width + FOREST_GAP * scale;
+  });
+  return positions;
+}
+
+/**
+ * Force-directed: folders push each other away and edges pull parents and
+ * children together. Starts from the radial layout so the result is the same
+ * every time.
+ */
+function layoutForce(
+  nodes: LayoutNode[],
+  edges: LayoutEdge[],
+  nodeSize: NodeSize,
+  scale: number
+): TreeLayoutPositions {
+  const start = layoutRadial(nodes, edges, nodeSize, scale);
+  const ids = nodes.map((node) => node.id);
+  const index = new Map(ids.map((id, i) => [id, i]));
+  const x = ids.map((id) => start[id].x);
+  const y = ids.map((id) => start[id].y);
+  const links = edges
+    .map((edge) => [index.get(edge.source), index.get(edge.target)])
+    .filter((link): link is [number, number] => link[0] !== undefined && link[1] !== undefined);
+
+  // Ideal distance between linked folders
+  const k = (nodeSize.width + 40) * scale;
+  const count = ids.length;
+  const iterations = Math.max(
+    FORCE_MIN_ITERATIONS,
+    Math.min(FORCE_MAX_ITERATIONS, Math.floor(FORCE_PAIR_BUDGET / Math.max(count * count, 1)))
+  );
+  let temperature = k * 2;
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const dx = new Float64Array(count);
+    const dy = new Float64Array(count);
+
+    for (let i = 0; i < count; i++) {
+      for (let j = i + 1; j < count; j++) {
+        let ox = x[i] - x[j];
+        let oy = y[i] - y[j];
+        let distance = Math.hypot(ox, oy);
+        if (distance < 0.01) {
+          // Same spot: push apart along a fixed direction
+          ox = 0.01 * ((i % 7) - 3 || 1);
+          oy = 0.01;
+          distance = Math.hypot(ox, oy);
+        }
+        const force = (k * k) / distance;
+        dx[i] += (ox / distance) * force;
+        dy[i] += (oy / distance) * force;
+        dx[j] -= (ox / distance) * force;
+        dy[j] -= (oy / distance) * force;
+      }
+    }
+
+    links.forEach(([source, target]) => {
+      const ox = x[source] - x[target];
+      const oy = y[source] - y[target];
+      const distance = Math.max(Math.hypot(ox, oy), 0.01);
+      const force = (distance * distance) / k;
+      dx[source] -= (ox / distance) * force;
+      dy[source] -= (oy / distance) * force;
+      dx[target] += (ox / distance) * force;
+      dy[target] += (oy / distance) * force;
+    });
+
+    for (let i = 0; i < count; i++) {
+      const length = Math.hypot(dx[i], dy[i]);
+      if (length > 0) {
+        const step = Math.min(length, temperature);
+        x[i] += (dx[i] / length) * step;
+        y[i] += (dy[i] / length) * step;
+      }
+    }
+    temperature *= 0.95;
+  }
+
+  return Object.fromEntries(ids.map((id, i) => [id, { x: x[i], y: y[i] }]));
+}
+
+function runAlgorithm(
+  algorithm: LayoutAlgorithm,
+  nodes: LayoutNode[],
+  edges: LayoutEdge[],
+  nodeSize: NodeSize,
+  spacing: number,
+  partial: boolean
+): TreeLayoutPositions {
+  switch (algorithm) {
+    case "tree":
+    case "topDown":
+      return runDagre(
+        nodes,
+        edges,
+        nodeSize,
+        algorithm === "tree" ? "LR" : "TB",
+        getDagreSpacing(nodes, edges, partial, spacing)
+      );
+    case "compact":
+      return layoutCompact(nodes, edges, nodeSize, spacing);
+    case "radial":
+      return layoutRadial(nodes, edges, nodeSize, spacing);
+    case "force":
+      return layoutForce(nodes, edges, nodeSize, spacing);
+  }
+}
+
+/**
+ * Lay the tree out with the requested algorithm. With `preservePositions`,
+ * the preserved nodes keep their place and only the rest is laid out.
+ */
+export function computeTreeLayout({
+  algorithm,
+  spacing,
+  nodes,
+  edges,
+  preservePositions,
+  preservedIds,
+  nodeSize,
+}: TreeLayoutRequest): TreeLayoutPositions {
+  if (nodes.length === 0) return {};
+  if (edges.length === 0) {
+    return Object.fromEntries(
+      nodes.map((node, index) => [node.id, { x: index * 250 * spacing, y: 100 }])
+    );
+  }
+
+  const preserved = new Set(preservedIds);
+  if (preservePositions && preserved.size > 0) {
+    const nodesToLayout = nodes.filter((node) => !preserved.has(node.id));
+    const edgesToLayout = edges.filter(
+      (edge) => !preserved.has(edge.source) && !preserved.has(edge.target)
+    );
+
+    if (nodesToLayout.length > 0 && edgesToLayout.length > 0) {
+      return runAlgorithm(algorithm, nodesToLayout, edgesToLayout, nodeSize, spacing, true);
+    }
+  }
+
+  return runAlgorithm(algorithm, nodes, edges, nodeSize, spacing, false);
+}
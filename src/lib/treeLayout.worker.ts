@@ -0,0 +1,10 @@
+// Web Worker running computeTreeLayout for requestTreeLayout
+
+import { computeTreeLayout, TreeLayoutRequest } from "./treeLayout";
+
+self.onmessage = (
+  event: MessageEvent<{ id: number; request: TreeLayoutRequest }>
+) => {
+  const { id, request } = event.data;
+  self.postMessage({ id, positions: computeTreeLayout(request) });
+};
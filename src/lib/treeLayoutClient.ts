@@ -0,0 +1,73 @@
+// Runs tree layouts in a Web Worker so large trees do not freeze the canvas
+// Only the newest request counts: a request made while another is running
+// stops the worker and resolves the older one with null.
+
+import {
+  computeTreeLayout,
+  TreeLayoutPositions,
+  TreeLayoutRequest,
+} from "./treeLayout";
+
+interface PendingLayout {
+  id: number;
+  request: TreeLayoutRequest;
+  resolve: (positions: TreeLayoutPositions | null) => void;
+}
+
+let worker: Worker | null = null;
+let pending: PendingLayout | null = null;
+let nextRequestId = 0;
+
+function createWorker(): Worker {
+  const created = new Worker(new URL("./treeLayout.worker.ts", import.meta.url));
+  created.onmessage = (
+    event: MessageEvent<{ id: number; positions: TreeLayoutPositions }>
+  ) => {
+    if (pending?.id !== event.data.id) return;
+    pending.resolve(event.data.positions);
+    pending = null;
+  };
+  // The worker could not start or crashed: lay out on the main thread instead
+  created.onerror = () => {
+    created.terminate();
+    worker = null;
+    if (pending) {
+      pending.resolve(computeTreeLayout(pending.request));
+      pending = null;
+    }
+  };
+  return created;
+}
+
+/**
+ * Stop the layout in flight, if any. Its promise resolves with null.
+ */
+export function cancelTreeLayout() {
+  if (!pending) return;
+  pending.resolve(null);
+  pending = null;
+  // dagre cannot be interrupted; a fresh worker takes the next request
+  worker?.terminate();
+  worker = null;
+}
+
+/**
+ * Lay out the tree off the main thread. Resolves with null when a newer
+ * request replaced this one.
+ */
+export function requestTreeLayout(
+  request: TreeLayoutRequest
+): Promise<TreeLayoutPositions | null> {
+  cancelTreeLayout();
+  if (typeof Worker === "undefined") {
+    return Promise.resolve(computeTreeLayout(request));
+  }
+
+  worker ??= createWorker();
+  const id = ++nextRequestId;
+  const target = worker;
+  return new Promise((resolve) => {
+    pending = { id, request, resolve };
+    target.postMessage({ id, request });
+  });
+}
@@ -17,6 +17,9 @@ export interface FolderNode {
   areaId?: string; // For area grouping
   hasChildren?: boolean;
   connector?: string;
+  missing?: boolean; // Saved in a layout but no longer on disk
+  totalChildren?: number; // Subfolders on disk, while only some pages are loaded
+  shownChildren?: number; // Loaded children drawn on the canvas (default: one page)
 }
 
 export interface FolderNodeVisualData {
@@ -27,8 +30,13 @@ export interface FolderNodeVisualData {
   children?: FolderNode[];
   expanded: boolean;
   childCount: number;
+  hasChildren: boolean;
   depth: number;
   isHighlighted?: boolean;
+  isMissing?: boolean;
+  connector?: string;
+  hiddenCount?: number; // On "N hidden" stubs standing in for folders past the render budget
+  parentId?: string; // On "+N more" stubs: the folder whose next page they show
 }
 
 export interface Area {
@@ -41,9 +49,19 @@ export interface Area {
 }
 
 export interface LayoutData {
+  layoutId?: string; // Saved layout to autosave to; the scratch layout without one
   nodes: FolderNode[];
   areas: Area[];
-  layoutMode: "auto" | "freeflow";
+  layoutMode: LayoutMode;
+}
+
+// Autosave state shown in the toolbar; "idle" until the canvas first changes
+export type LayoutSaveStatus = "idle" | "dirty" | "saving" | "saved" | "error";
+
+export interface LayoutViewport {
+  x: number;
+  y: number;
+  zoom: number;
 }
 
 export interface SavedLayout {
@@ -52,20 +70,102 @@ export interface SavedLayout {
   mode: LayoutMode;
   nodes: FolderNode[];
   areas: Area[];
+  viewport?: LayoutViewport; // Where the canvas was looking, for imported layouts
+  scratch?: boolean; // Autosave of a canvas without a saved layout
   createdAt: string;
   updatedAt: string;
 }
 
+// A saved layout as a portable file, see src/lib/layoutFile.ts
+export interface LayoutFile {
+  format: "folder-explorer-layout";
+  version: number;
+  exportedAt: string;
+  layout: SavedLayout;
+}
+
+// Moves imported folder paths from one prefix to another
+export interface PathRewrite {
+  from: string;
+  to: string;
+}
+
+// A saved state of a layout, kept each time the layout is saved
+export interface LayoutRevisionSummary {
+  id: string;
+  layoutId: string;
+  name: string;
+  mode: LayoutMode;
+  message: string | null;
+  createdAt: string;
+  nodeCount: number;
+  areaCount: number;
+}
+
+export interface LayoutRevision
+  extends Omit<LayoutRevisionSummary, "nodeCount" | "areaCount"> {
+  nodes: FolderNode[];
+  areas: Area[];
+}
+
+// How a revision differs from another arrangement, by folder path and area name
+export interface LayoutDiff {
+  moved: string[];
+  recolored: string[];
+  added: string[]; // Folders only in the newer arrangement
+  removed: string[]; // Folders only in the older arrangement
+  areasChanged: string[];
+}
+
+// A folder on a saved layout as a URL, see src/lib/deepLink.ts
+export interface DeepLink {
+  layoutId?: string;
+  nodePath?: string; // Expanded down to and selected
+  viewport?: LayoutViewport;
+}
+
+// The node fields a canvas edit can change
+export type CanvasNodeFields = Partial<
+  Pick<FolderNode, "position" | "color" | "icon" | "expanded">
+>;
+
+// One undoable canvas edit, as the fields it changed before and after.
+// An area side is null while the area does not exist.
+export interface CanvasEdit {
+  label: string; // e.g. "move 3 folders", shown on the undo button
+  nodes: { id: string; before: CanvasNodeFields; after: CanvasNodeFields }[];
+  areas: {
+    id: string;
+    index: number; // Where a removed area goes back
+    before: Partial<Area> | null;
+    after: Partial<Area> | null;
+  }[];
+}
+
 export interface DirectoryResponse {
   id: string;
   name: string;
   path: string;
   children: DirectoryResponse[];
+  hasChildren?: boolean;
+  totalChildren?: number; // Subfolders in all, when they were listed
   icon: string;
   color: string;
   position: Position;
 }
 
+export interface DirectoryChildrenResponse {
+  path: string;
+  children: DirectoryResponse[];
+  total: number;
+}
+
+// One page of a folder's subfolders, sorted by name
+export interface ChildPage {
+  offset?: number;
+  limit?: number;
+}
+
 export interface EverythingEntry {
   id: string;
   name: string;
@@ -82,15 +182,119 @@ export interface EverythingListResponse {
   name: string;
   total: number;
   children: EverythingEntry[];
+  filtered: boolean; // Entries outside the allowed roots were left out
 }
 
 export interface EverythingSearchResponse {
   query: string;
   totalResults: number;
   results: EverythingEntry[];
+  filtered: boolean; // Results outside the allowed roots were left out
 }
 
-export type LayoutMode = "auto" | "freeflow";
+export interface FileSystemEvent {
+  root: string;
+  type: "add" | "remove" | "rename";
+  path: string;
+  from?: string; // Previous path for renames
+  node?: DirectoryResponse; // Folder snapshot for adds and renames
+}
+
+// A folder change made from the canvas, journaled by the backend for undo
+export interface FolderOperation {
+  id: string;
+  type: "create" | "rename" | "move" | "trash";
+  path: string;
+  from?: string; // Previous path for renames and moves
+  trashPath?: string; // Where a trashed folder was moved
+  createdAt: string;
+}
+
+export interface FolderOperationResponse {
+  operation: FolderOperation;
+  event: FileSystemEvent; // What the canvas should apply
+}
+
+// A folder change waiting for the user to confirm it
+export type PendingFolderOperation =
+  | { type: "create"; parentId: string; parentPath: string; name: string }
+  | { type: "rename"; nodeId: string; path: string; name: string }
+  | { type: "trash"; nodeId: string; path: string; name: string }
+  | {
+    type: "move";
+    nodeId: string;
+    path: string;
+    name: string;
+    targetPath: string;
+  };
+
+// Copy progress of a move across devices, pushed on /events
+export interface FolderOperationProgress {
+  requestId: string;
+  copiedBytes: number;
+  totalBytes: number;
+}
+
+export type FileSearchMode = "substring" | "prefix" | "glob";
+
+export interface FileSearchResult {
+  name: string;
+  path: string;
+  type: "folder" | "file";
+  size: number | null;
+  modifiedDate: string | null;
+  root: string;
+}
+
+export interface FileSearchResponse {
+  query: string;
+  totalResults: number;
+  results: FileSearchResult[];
+  ready: boolean; // False while a root's first scan is still running
+  truncated: boolean; // A root has more entries than the index holds
+}
+
+// Error codes returned by the backend, plus BACKEND_UNREACHABLE when the
+// request never got a response
+export type ApiErrorCode =
+  | "BAD_REQUEST"
+  | "NOT_FOUND"
+  | "PERMISSION_DENIED"
+  | "NOT_A_DIRECTORY"
+  | "PATH_NOT_ALLOWED"
+  | "ALREADY_EXISTS"
+  | "NOT_EMPTY"
+  | "NOTHING_TO_UNDO"
+  | "LAYOUT_CONFLICT"
+  | "CONNECTOR_UNAVAILABLE"
+  | "INTERNAL"
+  | "BACKEND_UNREACHABLE";
+
+export interface Toast {
+  id: number;
+  message: string;
+  tone: "error" | "info";
+}
+
+// A configured way to open a folder (file manager, terminal, editor, ...)
+export interface OpenAction {
+  id: string;
+  label: string;
+  icon: string | null;
+}
+
+export interface BackendConfig {
+  demoMode: boolean;
+  allowedRoots: string[]; // Folders the backend is allowed to read
+  openActions: OpenAction[]; // The first one is the double-click default
+  childPageSize: number; // Subfolders loaded and shown at a time
+}
+
+// How the canvas arranges folders on its own
+export type LayoutAlgorithm = "tree" | "topDown" | "radial" | "compact" | "force";
+// "freeflow" leaves folders where they are put; the others re-arrange the
+// canvas with that algorithm as folders are expanded and collapsed
+export type LayoutMode = "freeflow" | LayoutAlgorithm;
 export type ViewMode = "view" | "edit";
 
 export interface ContextMenuOption {
@@ -106,3 +310,17 @@ export interface SearchMatch {
   icon?: string;
   connector?: string;
 }
+
+// What changed on disk since a saved layout was created
+export interface LayoutReconcileSummary {
+  layoutName: string;
+  kept: number;
+  added: string[]; // Paths of folders that are new on disk
+  missing: string[]; // Paths of folders that are gone from disk
+}
+
+// Asks the user to add a folder as a new root so a search hit can be revealed
+export interface RevealPrompt {
+  match: SearchMatch;
+  ancestorPath: string;
+}
@@ -1,7 +1,12 @@
 // Utility functions
 
 import { Edge, Node, Position as HandlePosition } from "reactflow";
-import { FolderNode, FolderNodeVisualData, Position } from "./types";
+import {
+  FolderNode,
+  FolderNodeVisualData,
+  FolderOperation,
+  Position,
+} from "./types";
 
 /**
  * Convert directory tree to ReactFlow nodes and edges
@@ -10,14 +15,207 @@ interface ConvertOptions {
   parentId?: string;
   depth?: number;
   highlightedNodeIds?: Set<string>;
+  pageSize?: number; // Children drawn per folder until "+N more" is clicked
+  viewport?: Rect; // Skip placed subtrees entirely outside it (flow coordinates)
 }
 
-// Maximum nodes to render at once for performance
+// A rectangle in flow coordinates
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Maximum nodes in the graph at once for performance. Only subtrees in or
+// near the viewport count, so this is what can be on screen at once.
 const MAX_RENDERED_NODES = 1000;
+// Room a folder takes on the canvas, for culling; matches FolderNode's box
+const CULL_NODE_SIZE = { width: 140, height: 50 };
+// Where a stub goes: below the last sibling it follows, or right of its
+// parent when it stands in for all the children
+const STUB_SIBLING_OFFSET = { x: 0, y: 60 };
+const STUB_CHILD_OFFSET = { x: 220, y: 0 };
+
+// Subfolders loaded and drawn per page unless the backend says otherwise
+export const DEFAULT_CHILD_PAGE_SIZE = 200;
+
+/**
+ * The children of a folder drawn on the canvas: its first `shownChildren`
+ * (one page by default) plus later ones that are expanded or highlighted, so
+ * folders revealed by a search stay visible. `moreCount` is how many
+ * subfolders are left for the "+N more" stub, loaded or not.
+ */
+function pageChildren(
+  node: FolderNode,
+  pageSize: number,
+  highlightedNodeIds?: Set<string>
+): { shown: FolderNode[]; moreCount: number } {
+  const children = node.children ?? [];
+  const limit = node.shownChildren ?? pageSize;
+  const shown = children.filter(
+    (child, index) =>
+      index < limit ||
+      child.expanded === true ||
+      (highlightedNodeIds?.has(child.id) ?? false)
+  );
+  const total = Math.max(node.totalChildren ?? 0, children.length);
+  return { shown, moreCount: total - shown.length };
+}
+
+/**
+ * Number of nodes that would be rendered for `nodes`: each node plus the
+ * shown descendants of expanded ones
+ */
+function countVisibleNodes(nodes: FolderNode[], pageSize: number): number {
+  return nodes.reduce(
+    (count, node) =>
+      count +
+      1 +
+      (node.expanded === true
+        ? countVisibleNodes(pageChildren(node, pageSize).shown, pageSize)
+        : 0),
+    0
+  );
+}
+
+function isPlaced(position: Position | undefined): position is Position {
+  return !!position && (position.x !== 0 || position.y !== 0);
+}
+
+function intersects(a: Rect, b: Rect): boolean {
+  return (
+    a.x < b.x + b.width &&
+    b.x < a.x + a.width &&
+    a.y < b.y + b.height &&
+    b.y < a.y + a.height
+  );
+}
+
+/**
+ * Bounding box of a folder and the descendants drawn with it, or null when
+ * one of them has no position yet and the subtree still has to be laid out.
+ * Cached by node ID for the duration of one conversion.
+ */
+function getSubtreeBounds(
+  node: FolderNode,
+  pageSize: number,
+  highlightedNodeIds: Set<string> | undefined,
+  cache: Map<string, Rect | null>
+): Rect | null {
+  const cached = cache.get(node.id);
+  if (cached !== undefined) return cached;
+
+  let bounds: Rect | null = null;
+  if (isPlaced(node.position)) {
+    let minX = node.position.x;
+    let minY = node.position.y;
+    let maxX = minX + CULL_NODE_SIZE.width;
+    let maxY = minY + CULL_NODE_SIZE.height;
+    let placed = true;
+    if (node.expanded === true) {
+      for (const child of pageChildren(node, pageSize, highlightedNodeIds).shown) {
+        const childBounds = getSubtreeBounds(child, pageSize, highlightedNodeIds, cache);
+        if (!childBounds) {
+          placed = false;
+          break;
+        }
+        minX = Math.min(minX, childBounds.x);
+        minY = Math.min(minY, childBounds.y);
+        maxX = Math.max(maxX, childBounds.x + childBounds.width);
+        maxY = Math.max(maxY, childBounds.y + childBounds.height);
+      }
+    }
+    if (placed) {
+      // Room for a "+N more" stub below the last child
+      bounds = { x: minX, y: minY, width: maxX - minX, height: maxY - minY + STUB_SIBLING_OFFSET.y };
+    }
+  }
+  cache.set(node.id, bounds);
+  return bounds;
+}
 
+// A "N hidden" node in place of the folders cut off by the render budget
+function createHiddenStub(
+  hidden: FolderNode[],
+  previous: FolderNode | undefined,
+  parent: { id?: string; position?: Position },
+  depth: number,
+  pageSize: number
+): Node<FolderNodeVisualData> {
+  const anchor = previous?.position ?? parent.position ?? { x: 0, y: 0 };
+  const offset = previous ? STUB_SIBLING_OFFSET : STUB_CHILD_OFFSET;
+  const hiddenCount = countVisibleNodes(hidden, pageSize);
+  return {
+    id: `${parent.id ?? "root"}#hidden`,
+    type: "hiddenStub",
+    position: { x: anchor.x + offset.x, y: anchor.y + offset.y },
+    draggable: false,
+    selectable: false,
+    data: {
+      label: `${hiddenCount} hidden`,
+      path: "",
+      icon: "",
+      color: "",
+      expanded: false,
+      childCount: 0,
+      hasChildren: false,
+      depth,
+      hiddenCount,
+    },
+    targetPosition: HandlePosition.Left,
+    sourcePosition: HandlePosition.Right,
+  };
+}
+
+// A "+N more" node after the shown children of a paged folder. Its ID changes
+// with every page so the canvas places it below the new last child.
+function createMoreStub(
+  parent: FolderNode,
+  shown: FolderNode[],
+  moreCount: number,
+  depth: number
+): Node<FolderNodeVisualData> {
+  const previous = shown[shown.length - 1];
+  const anchor = previous?.position ?? parent.position;
+  const offset = previous ? STUB_SIBLING_OFFSET : STUB_CHILD_OFFSET;
+  return {
+    id: `${parent.id}#more-${shown.length}`,
+    type: "moreStub",
+    position: { x: anchor.x + offset.x, y: anchor.y + offset.y },
+    draggable: false,
+    selectable: false,
+    data: {
+      label: `+${moreCount} more`,
+      path: "",
+      icon: "",
+      color: "",
+      expanded: false,
+      childCount: 0,
+      hasChildren: false,
+      depth,
+      hiddenCount: moreCount,
+      parentId: parent.id,
+    },
+    targetPosition: HandlePosition.Left,
+    sourcePosition: HandlePosition.Right,
+  };
+}
+
+/**
+ * Convert directory tree to ReactFlow nodes and edges. With a `viewport`,
+ * subtrees that are placed entirely outside it are left out and do not count
+ * against the node budget, so the budget goes to what is on screen. Subtrees
+ * with folders that still need a position are always kept.
+ */
 export function convertToReactFlowNodes(
   nodes: FolderNode[],
-  options: ConvertOptions & { nodeCount?: { current: number } } = {}
+  options: ConvertOptions & {
+    nodeCount?: { current: number };
+    maxNodes?: number;
+    parentPosition?: Position;
+    boundsCache?: Map<string, Rect | null>;
+  } = {}
 ): { nodes: Node<FolderNodeVisualData>[]; edges: Edge[] } {
   const reactFlowNodes: Node<FolderNodeVisualData>[] = [];
   const reactFlowEdges: Edge[] = [];
@@ -25,13 +223,47 @@ export function convertToReactFlowNodes(
     parentId,
     depth = 0,
     highlightedNodeIds,
+    pageSize = DEFAULT_CHILD_PAGE_SIZE,
+    viewport,
     nodeCount = { current: 0 },
+    maxNodes = MAX_RENDERED_NODES,
+    parentPosition,
+    boundsCache = new Map<string, Rect | null>(),
   } = options;
 
-  nodes.forEach((node) => {
-    // Performance check: stop if we've rendered too many nodes
-    if (nodeCount.current >= MAX_RENDERED_NODES) {
-      return;
+  const isOffScreen = (node: FolderNode) => {
+    if (!viewport) return false;
+    const bounds = getSubtreeBounds(node, pageSize, highlightedNodeIds, boundsCache);
+    return !!bounds && !intersects(bounds, viewport);
+  };
+  const onScreen = viewport ? nodes.filter((node) => !isOffScreen(node)) : nodes;
+
+  const createEdge = (source: string, target: string): Edge => ({
+    id: `e${source}-${target}`,
+    source,
+    target,
+    type: "animatedDashed",
+    animated: false,
+    style: {
+      strokeWidth: 1,
+    },
+  });
+
+  for (const [index, node] of onScreen.entries()) {
+    // Past the budget the remaining siblings show up as one stub
+    if (nodeCount.current >= maxNodes) {
+      const stub = createHiddenStub(
+        onScreen.slice(index),
+        onScreen[index - 1],
+        { id: parentId, position: parentPosition },
+        depth,
+        pageSize
+      );
+      reactFlowNodes.push(stub);
+      if (parentId) {
+        reactFlowEdges.push(createEdge(parentId, stub.id));
+      }
+      break;
     }
 
     const childCount = node.children ? node.children.length : 0;
@@ -46,7 +278,10 @@ export function convertToReactFlowNodes(
       expanded: node.expanded ?? false, // Default to false for performance
       depth,
       childCount,
+      hasChildren: node.hasChildren ?? childCount > 0,
       isHighlighted,
+      isMissing: node.missing ?? false,
+      connector: node.connector ?? "local-fs",
     };
 
     reactFlowNodes.push({
@@ -61,44 +296,87 @@ export function convertToReactFlowNodes(
     nodeCount.current++;
 
     if (parentId) {
-      reactFlowEdges.push({
-        id: `e${parentId}-${node.id}`,
-        source: parentId,
-        target: node.id,
-        type: "animatedDashed",
-        animated: false,
-        style: {
-          strokeWidth: 1,
-        },
-      });
+      reactFlowEdges.push(createEdge(parentId, node.id));
     }
 
-    // Only render children if node is expanded AND we haven't hit the limit
-    if (
-      node.children &&
-      node.children.length > 0 &&
-      node.expanded === true &&
-      nodeCount.current < MAX_RENDERED_NODES
-    ) {
-      const childResult = convertToReactFlowNodes(node.children, {
+    // Only render children if node is expanded; past the limit they become a stub
+    if (node.expanded === true) {
+      const { shown, moreCount } = pageChildren(
+        node,
+        pageSize,
+        highlightedNodeIds
+      );
+      const childResult = convertToReactFlowNodes(shown, {
         parentId: node.id,
         depth: depth + 1,
         highlightedNodeIds,
+        pageSize,
+        viewport,
         nodeCount, // Pass the same counter object
+        maxNodes,
+        parentPosition: node.position,
+        boundsCache,
       });
       reactFlowNodes.push(...childResult.nodes);
       reactFlowEdges.push(...childResult.edges);
+
+      // The rest of a paged folder, unless the budget already cut it off
+      if (moreCount > 0 && nodeCount.current < maxNodes) {
+        const stub = createMoreStub(node, shown, moreCount, depth + 1);
+        reactFlowNodes.push(stub);
+        reactFlowEdges.push(createEdge(node.id, stub.id));
+      }
     }
-  });
+  }
 
   return { nodes: reactFlowNodes, edges: reactFlowEdges };
 }
 
 /**
- * Generate unique ID for nodes
+ * The nodes and edges of the whole canvas, including the subtrees culled
+ * because they are off-screen and without a node budget. For layouts,
+ * exports and area bounds, which cover more than the viewport.
+ */
+export function convertAllNodes(
+  nodes: FolderNode[],
+  options: Omit<ConvertOptions, "viewport"> = {}
+): { nodes: Node<FolderNodeVisualData>[]; edges: Edge[] } {
+  return convertToReactFlowNodes(nodes, { ...options, maxNodes: Infinity });
+}
+
+/**
+ * Swap converted nodes for the ones on the canvas, which have their measured
+ * size and current position
  */
-export function generateNodeId(path: string): string {
-  return path.replace(/[^a-zA-Z0-9]/g, "_");
+export function mergeRenderedNodes<T>(nodes: Node<T>[], rendered: Node<T>[]): Node<T>[] {
+  const renderedById = new Map(rendered.map((node) => [node.id, node]));
+  return nodes.map((node) => renderedById.get(node.id) ?? node);
+}
+
+/**
+ * Normalize a folder path for use in node IDs: forward slashes, no trailing
+ * separator, and lower case for Windows paths (which are case-insensitive)
+ */
+export function normalizeNodePath(path: string): string {
+  let normalized = path.replace(/\\/g, "/").replace(/([^/])\/{2,}/g, "$1/");
+  if (/^[a-zA-Z]:$/.test(normalized)) {
+    normalized += "/";
+  }
+  if (normalized.length > 1 && !/^[a-zA-Z]:\/$/.test(normalized)) {
+    normalized = normalized.replace(/\/+$/, "");
+  }
+  if (/^[a-zA-Z]:/.test(normalized) || normalized.startsWith("//")) {
+    normalized = normalized.toLowerCase();
+  }
+  return normalized;
+}
+
+/**
+ * Stable node ID derived from the connector and the folder path, so the same
+ * folder gets the same ID on every scan
+ */
+export function createNodeId(connector: string, path: string): string {
+  return `${connector}:${normalizeNodePath(path)}`;
 }
 
 /**
@@ -135,3 +413,104 @@ export function findNodeByIdRecursive(nodes: FolderNode[], id: string): FolderNo
   }
   return undefined;
 }
+
+/**
+ * Check whether `ancestor` is `target` itself or one of its parent folders.
+ * Works for both POSIX and Windows style paths.
+ */
+export function isSameOrAncestorPath(ancestor: string, target: string): boolean {
+  const base = ancestor.replace(/[\\/]+$/, "");
+  if (target === ancestor || target === base) {
+    return true;
+  }
+  return target.startsWith(`${base}/`) || target.startsWith(`${base}\\`);
+}
+
+/**
+ * List the folder paths between `ancestor` (exclusive) and `target` (inclusive)
+ */
+export function getIntermediatePaths(ancestor: string, target: string): string[] {
+  const base = ancestor.replace(/[\\/]+$/, "");
+  if (!isSameOrAncestorPath(ancestor, target) || target === ancestor || target === base) {
+    return [];
+  }
+
+  const separator = target.charAt(base.length);
+  const segments = target
+    .slice(base.length + 1)
+    .split(/[\\/]/)
+    .filter(Boolean);
+
+  const paths: string[] = [];
+  let current = base;
+  segments.forEach((segment) => {
+    current = `${current}${separator}${segment}`;
+    paths.push(current);
+  });
+  return paths;
+}
+
+/**
+ * Get the parent folder of a path ("C:\\Users\\me" -> "C:\\Users", "/home" -> "/")
+ */
+export function getParentPath(path: string): string | null {
+  const trimmed = path.replace(/[\\/]+$/, "");
+  const index = Math.max(trimmed.lastIndexOf("/"), trimmed.lastIndexOf("\\"));
+  if (index < 0) {
+    return null;
+  }
+  if (index === 0) {
+    return trimmed.charAt(0);
+  }
+  const parent = trimmed.slice(0, index);
+  return /^[a-zA-Z]:$/.test(parent) ? `${parent}${trimmed.charAt(index)}` : parent;
+}
+
+/**
+ * Get the last segment of a path
+ */
+export function getPathName(path: string): string {
+  const trimmed = path.replace(/[\\/]+$/, "");
+  const segments = trimmed.split(/[\\/]/);
+  return segments[segments.length - 1] || path;
+}
+
+/**
+ * Let the browser download `content` as a file
+ */
+export function downloadFile(fileName: string, content: BlobPart, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * File name friendly version of a name, e.g. "My Projects" -> "my-projects"
+ */
+export function toFileName(name: string): string {
+  return (
+    name
+      .trim()
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "layout"
+  );
+}
+
+/**
+ * Short description of a folder operation, e.g. "rename Docs to Notes"
+ */
+export function describeFolderOperation(operation: FolderOperation): string {
+  const name = getPathName(operation.path);
+  if (operation.type === "create") return `create ${name}`;
+  if (operation.type === "rename") {
+    return `rename ${getPathName(operation.from ?? "")} to ${name}`;
+  }
+  if (operation.type === "move") {
+    return `move ${name} to ${getPathName(getParentPath(operation.path) ?? "")}`;
+  }
+  return `move ${name} to trash`;
+}
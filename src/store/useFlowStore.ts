@@ -1,27 +1,266 @@
 import { create } from "zustand";
+import { createJSONStorage, persist } from "zustand/middleware";
 import {
   FolderNode,
   Area,
+  CanvasEdit,
+  DeepLink,
+  CanvasNodeFields,
+  LayoutAlgorithm,
   LayoutMode,
   ViewMode,
   SavedLayout,
+  LayoutData,
+  LayoutSaveStatus,
+  LayoutViewport,
+  PathRewrite,
   SearchMatch,
   DirectoryResponse,
+  ChildPage,
   EverythingEntry,
   EverythingListResponse,
+  FileSearchResult,
+  RevealPrompt,
+  FileSystemEvent,
+  LayoutReconcileSummary,
+  Toast,
+  OpenAction,
+  FolderOperation,
+  FolderOperationProgress,
+  PendingFolderOperation,
 } from "@/lib/types";
 import {
+  ApiError,
+  fetchConfig,
   fetchLayouts,
   createLayout,
+  updateLayout,
+  autosaveLayout,
+  renameLayoutRequest,
+  duplicateLayoutRequest,
+  restoreLayoutRevisionRequest,
+  importLayoutRequest,
   getLayout,
   deleteLayoutRequest,
   fetchDirectory,
+  fetchDirectoryChildren,
   listEverythingChildren,
   searchEverything,
+  searchFiles,
+  indexFolder,
+  watchFolder,
+  unwatchFolder,
+  openFolder,
+  openFolderWith,
+  createFolder,
+  renameFolder,
+  moveFolder,
+  trashFolder,
+  undoLastFolderOperation,
+  fetchFolderOperations,
 } from "@/lib/api";
-import { generateNodeId } from "@/lib/utils";
+import {
+  DEFAULT_CHILD_PAGE_SIZE,
+  createNodeId,
+  describeFolderOperation,
+  downloadFile,
+  toFileName,
+  getIntermediatePaths,
+  getParentPath,
+  getPathName,
+  isSameOrAncestorPath,
+} from "@/lib/utils";
+import { createLayoutFile, LAYOUT_FILE_EXTENSION } from "@/lib/layoutFile";
+import { createDeepLink } from "@/lib/deepLink";
 
 type NodeUpdater = (node: FolderNode) => FolderNode;
+type NodeEdit = CanvasEdit["nodes"][number];
+type AreaEdit = CanvasEdit["areas"][number];
+
+// How long a node changed on disk stays highlighted
+const NODE_PULSE_MS = 1500;
+// How long a toast stays on screen
+const TOAST_DURATION_MS = 6000;
+// Where a folder moved on disk lands, relative to its new parent
+const MOVED_NODE_OFFSET = { x: 220, y: 60 };
+
+// Quiet time after the last canvas change before it is autosaved
+const AUTOSAVE_DELAY_MS = 1500;
+// Where a canvas without a saved layout is autosaved
+const SCRATCH_LAYOUT_ID = "scratch";
+// Undo steps kept for the canvas
+const MAX_CANVAS_EDITS = 100;
+// Folder listings a layout load requests at once while checking it against disk
+const RECONCILE_CONCURRENCY = 8;
+// localStorage key for preferences and the last session
+const PERSIST_KEY = "folder-explorer";
+// Bump when PersistedState changes shape, and teach migratePersistedState
+// the previous one
+const PERSIST_VERSION = 1;
+
+const LAYOUT_ALGORITHMS: LayoutAlgorithm[] = ["tree", "topDown", "radial", "compact", "force"];
+// Range of the per-algorithm spacing multiplier
+export const MIN_LAYOUT_SPACING = 0.5;
+export const MAX_LAYOUT_SPACING = 2;
+
+let nextToastId = 0;
+let nextRequestId = 0;
+let autosaveTimer: ReturnType<typeof setTimeout> | null = null;
+// Settles when the save or autosave being sent is done. Saves go one at a
+// time, since two sent with the same layout version would conflict
+let layoutSaveInFlight: Promise<void> | null = null;
+
+// The nodes, areas and mode as last saved or loaded. The canvas has unsaved
+// changes while the store holds different ones; every edit replaces them.
+type LayoutContent = Pick<LayoutData, "nodes" | "areas" | "layoutMode">;
+let savedContent: LayoutContent | null = null;
+
+function markContentSaved(content: LayoutContent) {
+  savedContent = {
+    nodes: content.nodes,
+    areas: content.areas,
+    layoutMode: content.layoutMode,
+  };
+}
+
+function isContentSaved(content: LayoutContent): boolean {
+  return (
+    savedContent !== null &&
+    savedContent.nodes === content.nodes &&
+    savedContent.areas === content.areas &&
+    savedContent.layoutMode === content.layoutMode
+  );
+}
+
+// What is kept in localStorage between visits
+interface PersistedState {
+  theme?: "light" | "dark"; // Only when it overrides the OS setting
+  isSidebarCollapsed: boolean;
+  layoutSpacing: Record<LayoutAlgorithm, number>;
+  activeConnector: string;
+  session: {
+    layoutId: string | null; // The folders themselves come from the layout
+    viewport: LayoutViewport;
+  };
+}
+
+// The session read back on load, until restoreSession picks it up
+let lastSession: PersistedState["session"] | null = null;
+
+function getSystemTheme(): "light" | "dark" {
+  return typeof window !== "undefined" &&
+    window.matchMedia("(prefers-color-scheme: dark)").matches
+    ? "dark"
+    : "light";
+}
+
+function toPersistedState(state: FlowState): PersistedState {
+  return {
+    ...(state.theme !== getSystemTheme() && { theme: state.theme }),
+    isSidebarCollapsed: state.isSidebarCollapsed,
+    layoutSpacing: state.layoutSpacing,
+    activeConnector: state.activeConnector,
+    session: {
+      layoutId: state.activeLayoutId,
+      viewport: { ...state.pan, zoom: state.zoom },
+    },
+  };
+}
+
+// Saved state from another version: nothing older than version 1 was ever
+// written, and a newer one (after a downgrade) keeps the fields this version
+// knows, which mergePersistedState checks one by one
+function migratePersistedState(persisted: unknown): PersistedState {
+  return persisted as PersistedState;
+}
+
+// Take each saved field that is still valid; anything missing or malformed
+// keeps its default
+function mergePersistedState(persisted: unknown, current: FlowState): FlowState {
+  const saved = (persisted ?? {}) as Partial<PersistedState>;
+  const viewport = saved.session?.viewport;
+  lastSession =
+    viewport &&
+    Number.isFinite(viewport.x) &&
+    Number.isFinite(viewport.y) &&
+    Number.isFinite(viewport.zoom)
+      ? {
+        layoutId:
+          typeof saved.session?.layoutId === "string" ? saved.session.layoutId : null,
+        viewport: { x: viewport.x, y: viewport.y, zoom: viewport.zoom },
+      }
+      : null;
+  return {
+    ...current,
+    theme:
+      saved.theme === "light" || saved.theme === "dark"
+        ? saved.theme
+        : getSystemTheme(),
+    isSidebarCollapsed:
+      typeof saved.isSidebarCollapsed === "boolean"
+        ? saved.isSidebarCollapsed
+        : current.isSidebarCollapsed,
+    layoutSpacing: Object.fromEntries(
+      LAYOUT_ALGORITHMS.map((algorithm) => {
+        const spacing = saved.layoutSpacing?.[algorithm];
+        return [
+          algorithm,
+          typeof spacing === "number" && Number.isFinite(spacing)
+            ? clampLayoutSpacing(spacing)
+            : current.layoutSpacing[algorithm],
+        ];
+      })
+    ) as Record<LayoutAlgorithm, number>,
+    activeConnector:
+      typeof saved.activeConnector === "string"
+        ? saved.activeConnector
+        : current.activeConnector,
+  };
+}
+
+function clampLayoutSpacing(spacing: number): number {
+  return Math.min(Math.max(spacing, MIN_LAYOUT_SPACING), MAX_LAYOUT_SPACING);
+}
+
+// Layouts saved before there was a choice of algorithms call the
+// left-to-right tree "auto"
+function normalizeLayoutMode(mode: string): LayoutMode {
+  if (mode === "auto") return "tree";
+  return LAYOUT_ALGORITHMS.includes(mode as LayoutAlgorithm)
+    ? (mode as LayoutAlgorithm)
+    : "freeflow";
+}
+
+// Mark a save as in flight until the returned function is called
+function startLayoutSave(): () => void {
+  let finish = () => {};
+  layoutSaveInFlight = new Promise<void>((resolve) => {
+    finish = resolve;
+  });
+  return () => {
+    layoutSaveInFlight = null;
+    finish();
+  };
+}
+
+function cancelAutosave() {
+  if (autosaveTimer) {
+    clearTimeout(autosaveTimer);
+    autosaveTimer = null;
+  }
+}
+
+function scheduleAutosave() {
+  cancelAutosave();
+  autosaveTimer = setTimeout(() => {
+    autosaveTimer = null;
+    useFlowStore.getState().autosaveLayout();
+  }, AUTOSAVE_DELAY_MS);
+}
+
+function getErrorMessage(error: unknown, fallbackMessage: string): string {
+  return error instanceof ApiError ? error.message : fallbackMessage;
+}
 
 function updateNodeInTree(
   nodes: FolderNode[],
@@ -58,27 +297,343 @@ function updateNodeInTree(
   };
 }
 
-function setExpandedForTree(
+// Expand or collapse every node; roots always stay expanded
+function collectExpandedChanges(
   nodes: FolderNode[],
   expanded: boolean,
+  changes = new Map<string, CanvasNodeFields>(),
   depth = 0
-): FolderNode[] {
-  return nodes.map((node) => ({
+): Map<string, CanvasNodeFields> {
+  nodes.forEach((node) => {
+    changes.set(node.id, { expanded: depth === 0 ? true : expanded });
+    collectExpandedChanges(node.children ?? [], expanded, changes, depth + 1);
+  });
+  return changes;
+}
+
+function needsChildrenLoad(node: FolderNode): boolean {
+  return (
+    Boolean(node.hasChildren) &&
+    (!node.children || node.children.length === 0)
+  );
+}
+
+function withoutId(ids: Set<string>, id: string): Set<string> {
+  const next = new Set(ids);
+  next.delete(id);
+  return next;
+}
+
+function removeNodeFromTree(nodes: FolderNode[], id: string): FolderNode[] {
+  return nodes
+    .filter((node) => node.id !== id)
+    .map((node) =>
+      node.children && node.children.length > 0
+        ? { ...node, children: removeNodeFromTree(node.children, id) }
+        : node
+    );
+}
+
+// Rewrite the path and ID of a node and all its descendants after a rename,
+// recording old -> new IDs in `idMap`
+function rebaseNodePaths(
+  node: FolderNode,
+  fromPath: string,
+  toPath: string,
+  idMap: Map<string, string>
+): FolderNode {
+  const path = toPath + node.path.slice(fromPath.length);
+  const id = createNodeId(node.connector ?? "local-fs", path);
+  idMap.set(node.id, id);
+  return {
     ...node,
-    expanded: depth === 0 ? true : expanded,
-    children: node.children
-      ? setExpandedForTree(node.children, expanded, depth + 1)
-      : [],
+    id,
+    path,
+    children: (node.children ?? []).map((child) =>
+      rebaseNodePaths(child, fromPath, toPath, idMap)
+    ),
+  };
+}
+
+function offsetNodePositions(
+  node: FolderNode,
+  dx: number,
+  dy: number
+): FolderNode {
+  return {
+    ...node,
+    position: { x: node.position.x + dx, y: node.position.y + dy },
+    children: (node.children ?? []).map((child) =>
+      offsetNodePositions(child, dx, dy)
+    ),
+  };
+}
+
+function replaceSavedLayout(
+  layouts: SavedLayout[],
+  layout: SavedLayout
+): SavedLayout[] {
+  return layouts.map((saved) => (saved.id === layout.id ? layout : saved));
+}
+
+function remapAreaIds(areas: Area[], idMap: Map<string, string>): Area[] {
+  return areas.map((area) => ({
+    ...area,
+    id: idMap.get(area.id) ?? area.id,
+    nodes: area.nodes.map((id) => idMap.get(id) ?? id),
+  }));
+}
+
+// Roots, highlights and the selection follow re-keyed nodes
+function remapTrackedIds(state: FlowState, idMap: Map<string, string>) {
+  return {
+    rootFolderIds: new Set(
+      [...state.rootFolderIds].map((id) => idMap.get(id) ?? id)
+    ),
+    canvasUndoStack: remapCanvasEdits(state.canvasUndoStack, idMap),
+    canvasRedoStack: remapCanvasEdits(state.canvasRedoStack, idMap),
+    highlightedNodeIds: state.highlightedNodeIds.map(
+      (id) => idMap.get(id) ?? id
+    ),
+    selectedNodeId: state.selectedNodeId
+      ? idMap.get(state.selectedNodeId) ?? state.selectedNodeId
+      : null,
+  };
+}
+
+// Keep the backend search index in sync with canvas roots; watchers follow
+// the roots on their own (see syncWatchedRoots)
+function registerRootWithBackend(node: FolderNode) {
+  if (!node.path) return;
+  if ((node.connector ?? "local-fs") === "local-fs") {
+    indexFolder(node.path).catch(() => {});
+  }
+}
+
+// The /events connection the backend watches roots for, and the roots it
+// was asked to watch on it
+let eventClientId: string | null = null;
+let watchedRootPaths = new Set<string>();
+
+// Watch roots new to the canvas and stop watching the ones that left it
+function syncWatchedRoots(nodes: FolderNode[]) {
+  if (!eventClientId) return;
+  const clientId = eventClientId;
+  const rootPaths = new Set(nodes.map((node) => node.path).filter(Boolean));
+  rootPaths.forEach((rootPath) => {
+    if (!watchedRootPaths.has(rootPath)) {
+      watchFolder(rootPath, clientId).catch(() => {});
+    }
+  });
+  watchedRootPaths.forEach((rootPath) => {
+    if (!rootPaths.has(rootPath)) {
+      unwatchFolder(rootPath, clientId).catch(() => {});
+    }
+  });
+  watchedRootPaths = rootPaths;
+}
+
+// Areas that contain a parent also own children attached to it later
+function addToAreasContaining(
+  areas: Area[],
+  parentId: string,
+  ids: string[]
+): Area[] {
+  return areas.map((area) =>
+    area.nodes.includes(parentId)
+      ? { ...area, nodes: [...area.nodes, ...ids] }
+      : area
+  );
+}
+
+// The current values of the fields `fields` sets
+function pickFields<T extends object>(source: T, fields: Partial<T>): Partial<T> {
+  return Object.fromEntries(
+    Object.keys(fields).map((key) => [key, source[key as keyof T]])
+  ) as Partial<T>;
+}
+
+// Set fields on the listed nodes in one pass, keeping untouched subtrees
+function patchNodeTree(
+  nodes: FolderNode[],
+  fields: Map<string, CanvasNodeFields>
+): FolderNode[] {
+  let changed = false;
+  const patched = nodes.map((node) => {
+    const patch = fields.get(node.id);
+    const children = node.children?.length
+      ? patchNodeTree(node.children, fields)
+      : node.children;
+    if (!patch && children === node.children) return node;
+    changed = true;
+    return { ...node, ...patch, children };
+  });
+  return changed ? patched : nodes;
+}
+
+function applyAreaEdits(
+  areas: Area[],
+  edits: AreaEdit[],
+  side: "before" | "after"
+): Area[] {
+  return edits.reduce((current, edit) => {
+    const fields = edit[side];
+    if (!fields) {
+      return current.filter((area) => area.id !== edit.id);
+    }
+    if (current.some((area) => area.id === edit.id)) {
+      return current.map((area) =>
+        area.id === edit.id ? { ...area, ...fields } : area
+      );
+    }
+    // An area only comes back whole, from the side that removed it
+    const next = [...current];
+    next.splice(Math.min(edit.index, next.length), 0, fields as Area);
+    return next;
+  }, areas);
+}
+
+// Put the canvas as it was before or after an edit
+function applyCanvasEdit(
+  state: FlowState,
+  edit: CanvasEdit,
+  side: "before" | "after"
+) {
+  return {
+    nodes: patchNodeTree(
+      state.nodes,
+      new Map(edit.nodes.map((node) => [node.id, node[side]]))
+    ),
+    areas: applyAreaEdits(
+      state.areas,
+      side === "before" ? [...edit.areas].reverse() : edit.areas,
+      side
+    ),
+  };
+}
+
+// Push an edit onto the undo stack; a new edit drops the redo stack
+function recordCanvasEdit(
+  state: FlowState,
+  edit: CanvasEdit
+): Partial<FlowState> {
+  if (edit.nodes.length === 0 && edit.areas.length === 0) return {};
+  return {
+    canvasUndoStack: [...state.canvasUndoStack, edit].slice(-MAX_CANVAS_EDITS),
+    canvasRedoStack: [],
+  };
+}
+
+// Change fields on nodes as one undo step; nodes already set are skipped
+function editNodes(
+  state: FlowState,
+  label: string,
+  changes: Map<string, CanvasNodeFields>
+): Partial<FlowState> {
+  const edits: NodeEdit[] = [];
+  const visit = (nodes: FolderNode[]) =>
+    nodes.forEach((node) => {
+      const after = changes.get(node.id);
+      if (after) {
+        const before = pickFields<CanvasNodeFields>(node, after);
+        if (JSON.stringify(before) !== JSON.stringify(after)) {
+          edits.push({ id: node.id, before, after });
+        }
+      }
+      visit(node.children ?? []);
+    });
+  visit(state.nodes);
+  if (edits.length === 0) return {};
+
+  const edit: CanvasEdit = { label, nodes: edits, areas: [] };
+  return {
+    ...applyCanvasEdit(state, edit, "after"),
+    ...recordCanvasEdit(state, edit),
+  };
+}
+
+// Add, change or remove (`after` null) an area as one undo step
+function editArea(
+  state: FlowState,
+  label: string,
+  id: string,
+  after: Partial<Area> | null
+): Partial<FlowState> {
+  const index = state.areas.findIndex((area) => area.id === id);
+  const existing = index >= 0 ? state.areas[index] : null;
+  if (!existing && !after) return {};
+
+  const edit: CanvasEdit = {
+    label,
+    nodes: [],
+    areas: [
+      {
+        id,
+        index: existing ? index : state.areas.length,
+        // Only the changed fields, so undoing keeps folders added to the area since
+        before: existing && after ? pickFields(existing, after) : existing,
+        after,
+      },
+    ],
+  };
+  return {
+    ...applyCanvasEdit(state, edit, "after"),
+    ...recordCanvasEdit(state, edit),
+  };
+}
+
+// Undo steps follow nodes re-keyed after a rename on disk
+function remapCanvasEdits(
+  edits: CanvasEdit[],
+  idMap: Map<string, string>
+): CanvasEdit[] {
+  const remapArea = (area: Partial<Area> | null) =>
+    area && {
+      ...area,
+      ...(area.id && { id: idMap.get(area.id) ?? area.id }),
+      ...(area.nodes && { nodes: area.nodes.map((id) => idMap.get(id) ?? id) }),
+    };
+  return edits.map((edit) => ({
+    ...edit,
+    nodes: edit.nodes.map((node) => ({
+      ...node,
+      id: idMap.get(node.id) ?? node.id,
+    })),
+    areas: edit.areas.map((area) => ({
+      ...area,
+      id: idMap.get(area.id) ?? area.id,
+      before: remapArea(area.before),
+      after: remapArea(area.after),
+    })),
   }));
 }
 
+// Fetch the children of nodes an undo or redo expanded, if never loaded
+function loadExpandedChildren(edit: CanvasEdit, side: "before" | "after") {
+  const state = useFlowStore.getState();
+  edit.nodes
+    .filter((node) => node[side].expanded)
+    .forEach(({ id }) => {
+      const node = findNodeById(state.nodes, id);
+      if (node && needsChildrenLoad(node)) {
+        void state.loadNodeChildren(id);
+      }
+    });
+}
+
 interface FlowState {
   // Data
   nodes: FolderNode[];
   areas: Area[];
   rootFolderIds: Set<string>; // Track root folders (always Areas, cannot be unmarked)
+  loadingNodeIds: Set<string>; // Nodes whose children are being fetched
+  pulsingNodeIds: Set<string>; // Nodes that just changed on disk
   savedLayouts: SavedLayout[];
   activeLayoutId: string | null;
+  activeLayoutVersion: string | null; // updatedAt of the saved layout on the canvas
+  layoutSaveStatus: LayoutSaveStatus;
+  requestedViewport: LayoutViewport | null; // Applied by the canvas once
+  layoutReconcileSummary: LayoutReconcileSummary | null;
 
   // UI State
   layoutMode: LayoutMode;
@@ -93,12 +648,29 @@ interface FlowState {
   layoutRefreshToken: number;
   theme: "light" | "dark";
   isSidebarCollapsed: boolean;
+  layoutSpacing: Record<LayoutAlgorithm, number>; // Gap multiplier per algorithm
 
   // Canvas State
   zoom: number;
   pan: { x: number; y: number };
   isLoadingNodes: boolean;
   searchLoading: boolean;
+  searchIncomplete: boolean; // The index was still scanning or is full, so matches may be missing
+  revealPrompt: RevealPrompt | null;
+  toasts: Toast[];
+  demoMode: boolean; // Backend serves mock folders instead of the disk
+  openActions: OpenAction[];
+  childPageSize: number; // Subfolders loaded and shown at a time
+  pendingFolderOperation: PendingFolderOperation | null; // Awaiting confirmation
+  lastFolderOperation: FolderOperation | null; // What undo would reverse
+  canvasUndoStack: CanvasEdit[]; // Canvas edits, oldest first
+  canvasRedoStack: CanvasEdit[]; // Undone edits, most recently undone last
+  folderOperationProgress: {
+    requestId: string;
+    label: string;
+    copiedBytes: number;
+    totalBytes: number | null; // Unknown until a copy starts
+  } | null;
 
   // Actions
   setNodes: (nodes: FolderNode[]) => void;
@@ -107,6 +679,8 @@ interface FlowState {
   markAsArea: (folderId: string) => void;
   unmarkAsArea: (folderId: string) => void;
   setLayoutMode: (mode: LayoutMode) => void;
+  setLayoutSpacing: (algorithm: LayoutAlgorithm, spacing: number) => void;
+  relayout: (nodeId?: string) => void; // The whole canvas, or one folder's subtree
   setViewMode: (mode: ViewMode) => void;
   setSelectedNodeId: (id: string | null) => void;
   setSelectedAreaId: (id: string | null) => void;
@@ -117,34 +691,75 @@ interface FlowState {
   setTheme: (theme: "light" | "dark") => void;
   toggleTheme: () => void;
   toggleSidebar: () => void;
-  saveLayout: (name: string) => Promise<void>;
-  loadLayout: (layoutId: string) => Promise<void>;
+  saveLayout: (message?: string) => Promise<void>;
+  saveLayoutAs: (name: string) => Promise<void>;
+  renameLayout: (layoutId: string, name: string) => Promise<void>;
+  duplicateLayout: (layoutId: string) => Promise<void>;
+  loadLayout: (layoutId: string, viewport?: LayoutViewport) => Promise<void>;
   deleteLayout: (layoutId: string) => Promise<void>;
+  restoreLayoutRevision: (revisionId: string) => Promise<void>;
+  autosaveLayout: () => Promise<void>;
+  exportLayout: (layoutId: string) => Promise<void>;
+  importLayout: (file: unknown, rewrite?: PathRewrite) => Promise<void>;
+  consumeRequestedViewport: () => void;
+  restoreScratchLayout: (viewport?: LayoutViewport) => Promise<void>;
+  restoreSession: (viewport?: LayoutViewport) => Promise<void>;
+  openDeepLink: (link: DeepLink) => Promise<void>;
+  copyNodeLink: (nodePath: string) => Promise<void>;
+  dismissLayoutReconcileSummary: () => void;
   syncLayouts: () => Promise<void>;
   setActiveSearchIndex: (index: number) => void;
   selectNextSearchMatch: () => void;
   selectPrevSearchMatch: () => void;
-  focusSearchMatch: (index?: number) => void;
-  updateNodePosition: (id: string, position: { x: number; y: number }) => void;
+  focusSearchMatch: (index?: number) => Promise<void>;
+  revealSearchMatch: (match: SearchMatch, options?: { center?: boolean }) => Promise<void>;
+  confirmRevealPrompt: () => Promise<void>;
+  dismissRevealPrompt: () => void;
+  updateNodePosition: (id: string, position: { x: number; y: number }) => void; // Automatic placement, not an undo step
+  moveNodes: (positions: Map<string, { x: number; y: number }>, label?: string) => void;
   updateNodeColor: (id: string, color: string) => void;
   updateNodeIcon: (id: string, icon: string) => void;
   setNodeExpanded: (id: string, expanded: boolean) => void;
   toggleNodeExpanded: (id: string) => void;
+  loadNodeChildren: (id: string) => Promise<void>;
+  showMoreChildren: (id: string) => Promise<void>; // Next page of a paged folder
   expandAllNodes: () => void;
   collapseAllNodes: () => void;
+  undoCanvasEdit: () => void;
+  redoCanvasEdit: () => void;
   setZoom: (zoom: number) => void;
   setPan: (pan: { x: number; y: number }) => void;
   loadConnectorRoot: (connectorId: string, path?: string) => Promise<void>;
   addRootFolder: (folderNode: FolderNode) => void;
+  applyFileSystemEvent: (event: FileSystemEvent) => void;
+  pulseNodes: (ids: string[]) => void;
+  pushToast: (message: string, tone?: Toast["tone"]) => void;
+  dismissToast: (id: number) => void;
+  reportError: (error: unknown, fallbackMessage: string) => void;
+  loadBackendConfig: () => Promise<void>;
+  openNodeFolder: (folderPath: string, actionId?: string) => Promise<void>;
+  requestFolderOperation: (operation: PendingFolderOperation) => void;
+  cancelFolderOperation: () => void;
+  confirmFolderOperation: (name?: string) => Promise<void>;
+  undoFolderOperation: () => Promise<void>;
+  refreshFolderOperations: () => Promise<void>;
+  updateFolderOperationProgress: (progress: FolderOperationProgress) => void;
+  setEventClientId: (clientId: string) => void; // A new /events connection, with no watches yet
 }
 
-export const useFlowStore = create<FlowState>((set, get) => ({
+export const useFlowStore = create<FlowState>()(persist((set, get) => ({
   // Initial state
   nodes: [],
   areas: [],
   rootFolderIds: new Set<string>(),
+  loadingNodeIds: new Set<string>(),
+  pulsingNodeIds: new Set<string>(),
   savedLayouts: [],
   activeLayoutId: null,
+  activeLayoutVersion: null,
+  layoutSaveStatus: "idle",
+  requestedViewport: null,
+  layoutReconcileSummary: null,
   layoutMode: "freeflow",
   viewMode: "view",
   selectedNodeId: null,
@@ -157,20 +772,34 @@ export const useFlowStore = create<FlowState>((set, get) => ({
   layoutRefreshToken: 0,
   theme: "light",
   isSidebarCollapsed: false,
+  layoutSpacing: Object.fromEntries(
+    LAYOUT_ALGORITHMS.map((algorithm) => [algorithm, 1])
+  ) as Record<LayoutAlgorithm, number>,
   zoom: 1,
   pan: { x: 0, y: 0 },
   isLoadingNodes: false,
   searchLoading: false,
+  searchIncomplete: false,
+  revealPrompt: null,
+  toasts: [],
+  demoMode: false,
+  openActions: [],
+  childPageSize: DEFAULT_CHILD_PAGE_SIZE,
+  pendingFolderOperation: null,
+  lastFolderOperation: null,
+  folderOperationProgress: null,
+  canvasUndoStack: [],
+  canvasRedoStack: [],
 
   // Actions
   setNodes: (nodes) => set({ nodes }),
   setAreas: (areas) => set({ areas }),
   updateAreaColor: (id, color) =>
-    set((state) => ({
-      areas: state.areas.map((area) =>
-        area.id === id ? { ...area, color } : area
-      ),
-    })),
+    set((state) => {
+      const area = state.areas.find((candidate) => candidate.id === id);
+      if (!area || area.color === color) return {};
+      return editArea(state, `recolor area ${area.name}`, id, { color });
+    }),
   markAsArea: (folderId) => {
     const state = get();
     const folder = findNodeById(state.nodes, folderId);
@@ -182,16 +811,36 @@ export const useFlowStore = create<FlowState>((set, get) => ({
     // Create new Area using helper
     const newArea = createAreaFromNode(folder);
 
-    set((current) => ({
-      areas: [...current.areas, newArea],
-    }));
+    set((current) =>
+      editArea(current, `mark ${folder.name} as an area`, folderId, newArea)
+    );
   },
   unmarkAsArea: (folderId) => {
-    set((current) => ({
-      areas: current.areas.filter((area) => area.id !== folderId),
-    }));
+    set((current) => {
+      const area = current.areas.find((candidate) => candidate.id === folderId);
+      if (!area) return {};
+      return editArea(current, `unmark area ${area.name}`, folderId, null);
+    });
+  },
+  setLayoutMode: (mode) => {
+    set({ layoutMode: mode });
+    if (mode !== "freeflow") {
+      get().relayout();
+    }
+  },
+  setLayoutSpacing: (algorithm, spacing) =>
+    set((state) => ({
+      layoutSpacing: {
+        ...state.layoutSpacing,
+        [algorithm]: clampLayoutSpacing(spacing),
+      },
+    })),
+  relayout: (nodeId) => {
+    // FolderCanvas runs the layout; it knows what is on screen
+    window.dispatchEvent(
+      new CustomEvent("relayout", { detail: { nodeId: nodeId ?? null } })
+    );
   },
-  setLayoutMode: (mode) => set({ layoutMode: mode }),
   setViewMode: (mode) => set({ viewMode: mode }),
   setSelectedNodeId: (id) => set({ selectedNodeId: id }),
   setSelectedAreaId: (id) => set({ selectedAreaId: id }),
@@ -221,7 +870,7 @@ export const useFlowStore = create<FlowState>((set, get) => ({
         const matches: SearchMatch[] = result.results
           .slice(0, 25)
           .map((entry) => ({
-            id: entry.path || entry.id || generateNodeId(entry.name),
+            id: createNodeId("everything-sdk", entry.path || entry.name),
             name: entry.name,
             path: entry.path || entry.name,
             icon: entry.icon,
@@ -239,55 +888,430 @@ export const useFlowStore = create<FlowState>((set, get) => ({
           searchLoading: false,
           activeSearchIndex: -1,
         });
+        get().reportError(error, "Everything search failed");
       }
       return;
     }
 
-    set({ searchLoading: false });
     set((state) => applySearchQueryToState(state, query));
+
+    // Ask the backend index for folders that are not loaded in the tree yet
+    const trimmed = query.trim();
+    const roots = collectLocalRootPaths(get().nodes);
+    if (!trimmed || roots.length === 0) {
+      set({ searchLoading: false, searchIncomplete: false });
+      return;
+    }
+
+    set({ searchLoading: true, searchIncomplete: false });
+    try {
+      const result = await searchFiles(trimmed, {
+        mode: /[*?]/.test(trimmed) ? "glob" : "substring",
+        type: "folder",
+        roots,
+        limit: 50,
+      });
+      // A newer query replaced this one while the request was in flight
+      if (get().searchQuery !== query) return;
+
+      set((state) => {
+        const searchMatches = mergeIndexedMatches(
+          state.nodes,
+          state.searchMatches,
+          result.results
+        );
+        return {
+          searchMatches,
+          searchLoading: false,
+          searchIncomplete: !result.ready || result.truncated,
+          activeSearchIndex:
+            state.activeSearchIndex >= 0
+              ? state.activeSearchIndex
+              : searchMatches.length > 0
+                ? 0
+                : -1,
+        };
+      });
+    } catch {
+      if (get().searchQuery === query) {
+        set({ searchLoading: false });
+      }
+    }
   },
   setHighlightedNodeIds: (ids) => set({ highlightedNodeIds: ids }),
   setActiveConnector: (connector) => set({ activeConnector: connector }),
   refreshLayout: () =>
     set((state) => ({ layoutRefreshToken: state.layoutRefreshToken + 1 })),
-  saveLayout: async (name: string) => {
+  saveLayout: async (message?: string) => {
+    // Take over from a pending autosave, and let one being sent finish so
+    // this save goes out with the version it produced
+    while (layoutSaveInFlight) {
+      await layoutSaveInFlight;
+    }
+    cancelAutosave();
+
     const state = get();
-    const layout = await createLayout({
-      name,
-      mode: state.layoutMode,
-      nodes: state.nodes,
-      areas: state.areas,
-    });
-    set((current) => ({
-      savedLayouts: [...current.savedLayouts, layout],
-      activeLayoutId: layout.id,
-    }));
+    if (!state.activeLayoutId || !state.activeLayoutVersion) return;
+    set({ layoutSaveStatus: "saving" });
+    const finishSave = startLayoutSave();
+    try {
+      const layout = await updateLayout(
+        state.activeLayoutId,
+        { mode: state.layoutMode, nodes: state.nodes, areas: state.areas, message },
+        state.activeLayoutVersion
+      );
+      markContentSaved(state);
+      set((current) => ({
+        savedLayouts: replaceSavedLayout(current.savedLayouts, layout),
+        activeLayoutVersion: layout.updatedAt,
+      }));
+    } catch (error) {
+      set({ layoutSaveStatus: "error" });
+      get().reportError(error, "Failed to save layout");
+      if (error instanceof ApiError && error.code === "LAYOUT_CONFLICT") {
+        // Show the newer version in the list; "Save as" keeps this canvas
+        await get().syncLayouts();
+      }
+      return;
+    } finally {
+      finishSave();
+    }
+
+    if (isContentSaved(get())) {
+      set({ layoutSaveStatus: "saved" });
+    } else {
+      set({ layoutSaveStatus: "dirty" });
+      scheduleAutosave();
+    }
+  },
+  saveLayoutAs: async (name: string) => {
+    const state = get();
+    try {
+      const layout = await createLayout({
+        name,
+        mode: state.layoutMode,
+        nodes: state.nodes,
+        areas: state.areas,
+      });
+      markContentSaved(state);
+      set((current) => ({
+        savedLayouts: [...current.savedLayouts, layout],
+        activeLayoutId: layout.id,
+        activeLayoutVersion: layout.updatedAt,
+        layoutSaveStatus: isContentSaved(current) ? "saved" : current.layoutSaveStatus,
+      }));
+    } catch (error) {
+      get().reportError(error, "Failed to save layout");
+    }
   },
-  loadLayout: async (layoutId: string) => {
-    const layout = await getLayout(layoutId);
+  renameLayout: async (layoutId, name) => {
+    const saved = get().savedLayouts.find((layout) => layout.id === layoutId);
+    if (!saved) return;
+    try {
+      const layout = await renameLayoutRequest(layoutId, name, saved.updatedAt);
+      set((current) => ({
+        savedLayouts: replaceSavedLayout(current.savedLayouts, layout),
+        // Still in step with the canvas when only the name changed
+        activeLayoutVersion:
+          current.activeLayoutId === layoutId &&
+          current.activeLayoutVersion === saved.updatedAt
+            ? layout.updatedAt
+            : current.activeLayoutVersion,
+      }));
+    } catch (error) {
+      get().reportError(error, "Failed to rename layout");
+      if (error instanceof ApiError && error.code === "LAYOUT_CONFLICT") {
+        await get().syncLayouts();
+      }
+    }
+  },
+  duplicateLayout: async (layoutId) => {
+    try {
+      const layout = await duplicateLayoutRequest(layoutId);
+      set((current) => ({
+        savedLayouts: [...current.savedLayouts, layout],
+      }));
+      get().pushToast(`Saved a copy as "${layout.name}"`, "info");
+    } catch (error) {
+      get().reportError(error, "Failed to duplicate layout");
+    }
+  },
+  loadLayout: async (layoutId: string, viewport?: LayoutViewport) => {
+    let layout: SavedLayout;
+    try {
+      layout = await getLayout(layoutId);
+    } catch (error) {
+      get().reportError(error, "Failed to load layout");
+      return;
+    }
+    set({ isLoadingNodes: true });
+    const { nodes, areas, reconciliation } = await reconcileSavedLayout(
+      layout,
+      get().childPageSize
+    );
+
     // Track root folder IDs (top-level nodes)
-    const rootIds = new Set(layout.nodes.map((node) => node.id));
+    const rootIds = new Set(nodes.map((node) => node.id));
+    const layoutMode = normalizeLayoutMode(layout.mode);
+    markContentSaved({ nodes, areas, layoutMode });
     set({
-      nodes: layout.nodes,
-      areas: layout.areas,
+      nodes,
+      areas,
       rootFolderIds: rootIds,
-      layoutMode: layout.mode,
+      layoutMode,
       activeLayoutId: layout.id,
+      activeLayoutVersion: layout.updatedAt,
+      selectedNodeId: null,
+      highlightedNodeIds: [],
+      isLoadingNodes: false,
+      // Undo steps belong to the canvas that was replaced
+      canvasUndoStack: [],
+      canvasRedoStack: [],
+      layoutSaveStatus: "saved",
+      requestedViewport: viewport ?? layout.viewport ?? null,
+      layoutReconcileSummary: {
+        layoutName: layout.name,
+        kept: reconciliation.kept,
+        added: reconciliation.addedPaths,
+        missing: reconciliation.missingPaths,
+      },
     });
+
+    if (reconciliation.uncheckedPaths.length > 0) {
+      get().pushToast(
+        `Could not check ${reconciliation.uncheckedPaths.length} folder(s) against disk; they are shown as saved`
+      );
+    }
+    nodes.forEach((node) => registerRootWithBackend(node));
   },
   deleteLayout: async (layoutId: string) => {
-    await deleteLayoutRequest(layoutId);
+    try {
+      await deleteLayoutRequest(layoutId);
+    } catch (error) {
+      get().reportError(error, "Failed to delete layout");
+      return;
+    }
     set((state) => ({
       savedLayouts: state.savedLayouts.filter(
         (layout) => layout.id !== layoutId
       ),
       activeLayoutId:
         state.activeLayoutId === layoutId ? null : state.activeLayoutId,
+      activeLayoutVersion:
+        state.activeLayoutId === layoutId ? null : state.activeLayoutVersion,
     }));
   },
+  restoreLayoutRevision: async (revisionId) => {
+    const { activeLayoutId, activeLayoutVersion } = get();
+    if (!activeLayoutId || !activeLayoutVersion) return;
+    try {
+      const layout = await restoreLayoutRevisionRequest(
+        activeLayoutId,
+        revisionId,
+        activeLayoutVersion
+      );
+      set((current) => ({
+        savedLayouts: replaceSavedLayout(current.savedLayouts, layout),
+      }));
+    } catch (error) {
+      get().reportError(error, "Failed to restore layout");
+      if (error instanceof ApiError && error.code === "LAYOUT_CONFLICT") {
+        await get().syncLayouts();
+      }
+      return;
+    }
+    // Load it like any saved layout, so the restored folders are checked against disk
+    await get().loadLayout(activeLayoutId);
+  },
+  autosaveLayout: async () => {
+    const state = get();
+    // A save in flight schedules the next one when it is done
+    if (
+      state.demoMode ||
+      layoutSaveInFlight ||
+      state.layoutSaveStatus === "saving" ||
+      isContentSaved(state)
+    ) {
+      return;
+    }
+    const content: LayoutContent = {
+      nodes: state.nodes,
+      areas: state.areas,
+      layoutMode: state.layoutMode,
+    };
+    const layoutId = state.activeLayoutId;
+    set({ layoutSaveStatus: "saving" });
+    const finishSave = startLayoutSave();
+    try {
+      const layout = await autosaveLayout(
+        { layoutId: layoutId ?? undefined, ...content },
+        state.activeLayoutVersion ?? undefined
+      );
+      if (get().activeLayoutId === layoutId) {
+        markContentSaved(content);
+        if (layoutId) {
+          set((current) => ({
+            savedLayouts: replaceSavedLayout(current.savedLayouts, layout),
+            activeLayoutVersion: layout.updatedAt,
+          }));
+        }
+      }
+    } catch (error) {
+      set({ layoutSaveStatus: "error" });
+      get().reportError(error, "Failed to save layout");
+      if (error instanceof ApiError && error.code === "LAYOUT_CONFLICT") {
+        // Stop writing over the other save; the canvas keeps autosaving to
+        // the scratch layout until it is saved under a name
+        set({ activeLayoutId: null, activeLayoutVersion: null });
+        await get().syncLayouts();
+      }
+      return;
+    } finally {
+      finishSave();
+    }
+
+    if (isContentSaved(get())) {
+      set({ layoutSaveStatus: "saved" });
+    } else {
+      set({ layoutSaveStatus: "dirty" });
+      scheduleAutosave();
+    }
+  },
+  exportLayout: async (layoutId) => {
+    let layout: SavedLayout;
+    try {
+      layout = await getLayout(layoutId);
+    } catch (error) {
+      get().reportError(error, "Failed to export layout");
+      return;
+    }
+    const { activeLayoutId, pan, zoom } = get();
+    const file = createLayoutFile(
+      layout,
+      layoutId === activeLayoutId ? { ...pan, zoom } : undefined
+    );
+    downloadFile(
+      `${toFileName(layout.name)}${LAYOUT_FILE_EXTENSION}`,
+      JSON.stringify(file, null, 2),
+      "application/json"
+    );
+  },
+  importLayout: async (file, rewrite) => {
+    let layout: SavedLayout;
+    try {
+      layout = await importLayoutRequest(file, rewrite);
+    } catch (error) {
+      get().reportError(error, "Failed to import layout");
+      return;
+    }
+    set((state) => ({ savedLayouts: [...state.savedLayouts, layout] }));
+    get().pushToast(`Imported "${layout.name}"`, "info");
+    await get().loadLayout(layout.id);
+  },
+  consumeRequestedViewport: () => set({ requestedViewport: null }),
+  restoreScratchLayout: async (viewport) => {
+    if (get().demoMode) return;
+    let layout: SavedLayout;
+    try {
+      layout = await getLayout(SCRATCH_LAYOUT_ID);
+    } catch {
+      // Nothing autosaved yet, or the backend is down (already reported)
+      return;
+    }
+    const { nodes, areas } = await reconcileSavedLayout(
+      layout,
+      get().childPageSize
+    );
+    // Folders added while the scratch layout loaded win over it
+    const state = get();
+    if (state.nodes.length > 0 || state.activeLayoutId) return;
+
+    const layoutMode = normalizeLayoutMode(layout.mode);
+    markContentSaved({ nodes, areas, layoutMode });
+    set({
+      nodes,
+      areas,
+      rootFolderIds: new Set(nodes.map((node) => node.id)),
+      layoutMode,
+      layoutSaveStatus: "saved",
+      requestedViewport: viewport ?? null,
+      canvasUndoStack: [],
+      canvasRedoStack: [],
+    });
+    nodes.forEach((node) => registerRootWithBackend(node));
+  },
+  restoreSession: async (viewport) => {
+    const session = lastSession;
+    lastSession = null;
+    await get().syncLayouts();
+    // Reopen the layout that was open last, if it still exists; otherwise the
+    // scratch layout holds the folders that were on the canvas
+    const layoutId = session?.layoutId;
+    if (
+      layoutId &&
+      !get().demoMode &&
+      get().savedLayouts.some((layout) => layout.id === layoutId)
+    ) {
+      await get().loadLayout(layoutId, viewport ?? session.viewport);
+      return;
+    }
+    await get().restoreScratchLayout(viewport ?? session?.viewport);
+  },
+  openDeepLink: async ({ layoutId, nodePath, viewport }) => {
+    if (layoutId) {
+      await get().syncLayouts();
+    }
+    if (layoutId && get().savedLayouts.some((layout) => layout.id === layoutId)) {
+      await get().loadLayout(layoutId, viewport);
+    } else {
+      if (layoutId) {
+        get().pushToast("The linked layout no longer exists");
+      }
+      await get().restoreSession(viewport);
+    }
+    if (!nodePath) return;
+
+    const root = findAncestorTrail(get().nodes, nodePath)[0];
+    const connector = root?.connector ?? get().activeConnector;
+    // Keep the linked viewport instead of centering on the folder
+    await get().revealSearchMatch(
+      {
+        id: createNodeId(connector, nodePath),
+        name: getPathName(nodePath),
+        path: nodePath,
+        connector,
+      },
+      { center: !viewport }
+    );
+  },
+  copyNodeLink: async (nodePath) => {
+    const { activeLayoutId, pan, zoom } = get();
+    const link = createDeepLink({
+      layoutId: activeLayoutId ?? undefined,
+      nodePath,
+      viewport: { ...pan, zoom },
+    });
+    try {
+      await navigator.clipboard.writeText(link);
+    } catch {
+      get().pushToast("Failed to copy the link");
+      return;
+    }
+    get().pushToast(
+      activeLayoutId
+        ? "Link copied"
+        : "Link copied. Save the canvas as a layout so others can open it",
+      "info"
+    );
+  },
+  dismissLayoutReconcileSummary: () => set({ layoutReconcileSummary: null }),
   syncLayouts: async () => {
-    const layouts = await fetchLayouts();
-    set({ savedLayouts: layouts });
+    try {
+      const layouts = await fetchLayouts();
+      set({ savedLayouts: layouts });
+    } catch (error) {
+      get().reportError(error, "Failed to fetch saved layouts");
+    }
   },
   setTheme: (theme) => set({ theme }),
   toggleTheme: () =>
@@ -325,36 +1349,146 @@ export const useFlowStore = create<FlowState>((set, get) => ({
       state.searchMatches.length;
     set({ activeSearchIndex: prev });
   },
-  focusSearchMatch: (index) =>
-    set((state) => {
-      if (state.searchMatches.length === 0) {
-        return {};
-      }
-      const targetIndex =
-        typeof index === "number"
-          ? Math.max(0, Math.min(index, state.searchMatches.length - 1))
-          : state.activeSearchIndex;
-      if (targetIndex < 0 || targetIndex >= state.searchMatches.length) {
-        return {};
+  focusSearchMatch: async (index) => {
+    const state = get();
+    if (state.searchMatches.length === 0) {
+      return;
+    }
+    const targetIndex =
+      typeof index === "number"
+        ? Math.max(0, Math.min(index, state.searchMatches.length - 1))
+        : state.activeSearchIndex;
+    if (targetIndex < 0 || targetIndex >= state.searchMatches.length) {
+      return;
+    }
+
+    set({ activeSearchIndex: targetIndex });
+    await get().revealSearchMatch(state.searchMatches[targetIndex]);
+  },
+  revealSearchMatch: async (match, options = {}) => {
+    const connectorId = match.connector ?? get().activeConnector;
+    const trail = findAncestorTrail(get().nodes, match.path);
+
+    if (trail.length === 0) {
+      // Outside every loaded root: offer to add its parent folder instead
+      const ancestorPath = getParentPath(match.path);
+      set({ revealPrompt: ancestorPath ? { match, ancestorPath } : null });
+      return;
+    }
+
+    set((state) => ({
+      nodes: trail.reduce(
+        (nodes, node) =>
+          updateNodeInTree(nodes, node.id, (target) => ({
+            ...target,
+            expanded: true,
+          })).nodes,
+        state.nodes
+      ),
+      revealPrompt: null,
+    }));
+
+    // Load each missing level below the deepest loaded ancestor
+    let currentId = trail[trail.length - 1].id;
+    const missingPaths = getIntermediatePaths(
+      trail[trail.length - 1].path,
+      match.path
+    );
+
+    for (const folderPath of missingPaths) {
+      let parent = findNodeById(get().nodes, currentId);
+      if (!parent) return;
+
+      if (needsChildrenLoad(parent)) {
+        await get().loadNodeChildren(parent.id);
+        parent = findNodeById(get().nodes, currentId);
+        // Loading failed and collapsed the parent again
+        if (!parent || !parent.expanded) return;
       }
-      const target = state.searchMatches[targetIndex];
-      const existingNode = findNodeById(state.nodes, target.id);
-
-      let nodes = state.nodes;
-      if (!existingNode) {
-        const newNode = createNodeFromSearchMatch(
-          target,
-          state.activeConnector
+
+      let next = parent.children?.find((child) => child.path === folderPath);
+      if (!next) {
+        const child = createNodeFromSearchMatch(
+          folderPath === match.path
+            ? match
+            : {
+              id: createNodeId(parent.connector ?? connectorId, folderPath),
+              name: getPathName(folderPath),
+              path: folderPath,
+            },
+          parent.connector ?? connectorId
         );
-        nodes = [...state.nodes, newNode];
+        const parentId = parent.id;
+        set((state) => ({
+          nodes: updateNodeInTree(state.nodes, parentId, (target) => ({
+            ...target,
+            children: [...(target.children ?? []), child],
+            hasChildren: true,
+            expanded: true,
+          })).nodes,
+          areas: addToAreasContaining(state.areas, parentId, [child.id]),
+        }));
+        next = child;
       }
 
-      return {
-        nodes,
-        selectedNodeId: target.id,
-        activeSearchIndex: targetIndex,
-      };
-    }),
+      if (folderPath !== match.path) {
+        const nextId = next.id;
+        set((state) => ({
+          nodes: updateNodeInTree(state.nodes, nextId, (target) => ({
+            ...target,
+            expanded: true,
+          })).nodes,
+        }));
+      }
+      currentId = next.id;
+    }
+
+    const nodeId = currentId;
+    set((state) => ({
+      selectedNodeId: nodeId,
+      highlightedNodeIds: state.highlightedNodeIds.includes(nodeId)
+        ? state.highlightedNodeIds
+        : [...state.highlightedNodeIds, nodeId],
+    }));
+
+    // FolderCanvas centers the viewport once the node is rendered
+    if (options.center !== false) {
+      window.dispatchEvent(
+        new CustomEvent("focusNode", { detail: { nodeId } })
+      );
+    }
+  },
+  confirmRevealPrompt: async () => {
+    const prompt = get().revealPrompt;
+    if (!prompt) return;
+
+    set({ revealPrompt: null, isLoadingNodes: true });
+    try {
+      const connectorId = prompt.match.connector ?? get().activeConnector;
+      const rootNode =
+        connectorId === "everything-sdk"
+          ? convertEverythingListResponse(
+            await listEverythingChildren(
+              prompt.ancestorPath,
+              get().childPageSize
+            )
+          )
+          : convertDirectoryResponse(
+            await fetchDirectory(prompt.ancestorPath, {
+              limit: get().childPageSize,
+            }),
+            true
+          );
+
+      get().addRootFolder(rootNode);
+      set({ isLoadingNodes: false });
+      await get().revealSearchMatch(prompt.match);
+    } catch (error) {
+      set({ isLoadingNodes: false });
+      get().reportError(error, `Failed to add ${prompt.ancestorPath}`);
+    }
+  },
+  dismissRevealPrompt: () => set({ revealPrompt: null }),
   updateNodePosition: (id, position) =>
     set((state) => {
       const { nodes } = updateNodeInTree(state.nodes, id, (node) => ({
@@ -363,49 +1497,202 @@ export const useFlowStore = create<FlowState>((set, get) => ({
       }));
       return { nodes };
     }),
-  updateNodeColor: (id, color) =>
-    set((state) => {
-      const { nodes } = updateNodeInTree(state.nodes, id, (node) => ({
-        ...node,
-        color,
-      }));
-      return { nodes };
-    }),
-  updateNodeIcon: (id, icon) =>
-    set((state) => {
-      const { nodes } = updateNodeInTree(state.nodes, id, (node) => ({
-        ...node,
-        icon,
-      }));
-      return { nodes };
-    }),
-  setNodeExpanded: (id, expanded) =>
-    set((state) => {
-      const { nodes } = updateNodeInTree(state.nodes, id, (node) => ({
-        ...node,
-        expanded,
-      }));
-      return { nodes };
-    }),
-  toggleNodeExpanded: (id) =>
-    set((state) => {
-      const { nodes } = updateNodeInTree(state.nodes, id, (node) => ({
-        ...node,
-        expanded: !node.expanded,
-      }));
-      return { nodes };
-    }),
+  moveNodes: (positions, label) =>
+    set((state) =>
+      editNodes(
+        state,
+        label ??
+          (positions.size === 1 ? "move folder" : `move ${positions.size} folders`),
+        new Map([...positions].map(([id, position]) => [id, { position }]))
+      )
+    ),
+  updateNodeColor: (id, color) =>
+    set((state) =>
+      editNodes(
+        state,
+        `recolor ${findNodeById(state.nodes, id)?.name ?? "folder"}`,
+        new Map([[id, { color }]])
+      )
+    ),
+  updateNodeIcon: (id, icon) =>
+    set((state) =>
+      editNodes(
+        state,
+        `change the icon of ${findNodeById(state.nodes, id)?.name ?? "folder"}`,
+        new Map([[id, { icon }]])
+      )
+    ),
+  setNodeExpanded: (id, expanded) => {
+    set((state) =>
+      editNodes(
+        state,
+        `${expanded ? "expand" : "collapse"} ${findNodeById(state.nodes, id)?.name ?? "folder"}`,
+        new Map([[id, { expanded }]])
+      )
+    );
+
+    const node = findNodeById(get().nodes, id);
+    if (expanded && node && needsChildrenLoad(node)) {
+      void get().loadNodeChildren(id);
+    }
+  },
+  toggleNodeExpanded: (id) => {
+    const node = findNodeById(get().nodes, id);
+    if (node) {
+      get().setNodeExpanded(id, !node.expanded);
+    }
+  },
+  loadNodeChildren: async (id) => {
+    const state = get();
+    const node = findNodeById(state.nodes, id);
+    if (!node || state.loadingNodeIds.has(id)) return;
+
+    set((current) => {
+      const loadingNodeIds = new Set(current.loadingNodeIds);
+      loadingNodeIds.add(id);
+      return { loadingNodeIds };
+    });
+
+    try {
+      const { children, total } = await fetchChildPage(node, {
+        limit: state.childPageSize,
+      });
+
+      set((current) => {
+        const { nodes } = updateNodeInTree(current.nodes, id, (target) => ({
+          ...target,
+          children,
+          hasChildren: children.length > 0,
+          totalChildren: getPagedTotal(total, children.length),
+          shownChildren: undefined,
+        }));
+
+        const childIds = children.flatMap((child) =>
+          collectAllDescendantIds(child)
+        );
+
+        return {
+          nodes,
+          areas: addToAreasContaining(current.areas, id, childIds),
+          loadingNodeIds: withoutId(current.loadingNodeIds, id),
+        };
+      });
+    } catch (error) {
+      set((current) => {
+        const { nodes } = updateNodeInTree(current.nodes, id, (target) => ({
+          ...target,
+          expanded: false,
+        }));
+        return {
+          nodes,
+          loadingNodeIds: withoutId(current.loadingNodeIds, id),
+        };
+      });
+      get().reportError(error, `Failed to load ${node.path}`);
+    }
+  },
+  showMoreChildren: async (id) => {
+    const state = get();
+    const node = findNodeById(state.nodes, id);
+    if (!node || state.loadingNodeIds.has(id)) return;
+
+    const loaded = node.children ?? [];
+    const shownChildren =
+      (node.shownChildren ?? state.childPageSize) + state.childPageSize;
+
+    // Enough children are loaded already; draw more of them
+    if (node.totalChildren === undefined || loaded.length >= shownChildren) {
+      set((current) => ({
+        nodes: updateNodeInTree(current.nodes, id, (target) => ({
+          ...target,
+          shownChildren,
+        })).nodes,
+      }));
+      return;
+    }
+
+    set((current) => {
+      const loadingNodeIds = new Set(current.loadingNodeIds);
+      loadingNodeIds.add(id);
+      return { loadingNodeIds };
+    });
+
+    try {
+      const { children, total } = await fetchChildPage(node, {
+        offset: loaded.length,
+        limit: state.childPageSize,
+      });
+
+      set((current) => {
+        let added: FolderNode[] = [];
+        const { nodes } = updateNodeInTree(current.nodes, id, (target) => {
+          const loadedIds = new Set(
+            (target.children ?? []).map((child) => child.id)
+          );
+          added = children.filter((child) => !loadedIds.has(child.id));
+          const merged = [...(target.children ?? []), ...added];
+          return {
+            ...target,
+            children: merged,
+            shownChildren,
+            // Nothing new on this page: the rest could not be read
+            totalChildren:
+              added.length > 0
+                ? getPagedTotal(total, merged.length)
+                : undefined,
+          };
+        });
+
+        return {
+          nodes,
+          areas: addToAreasContaining(
+            current.areas,
+            id,
+            added.flatMap((child) => collectAllDescendantIds(child))
+          ),
+          loadingNodeIds: withoutId(current.loadingNodeIds, id),
+        };
+      });
+    } catch (error) {
+      set((current) => ({
+        loadingNodeIds: withoutId(current.loadingNodeIds, id),
+      }));
+      get().reportError(error, `Failed to load more of ${node.path}`);
+    }
+  },
   expandAllNodes: () =>
-    set((state) => ({
-      nodes: setExpandedForTree(state.nodes, true),
-    })),
+    set((state) =>
+      editNodes(state, "expand all", collectExpandedChanges(state.nodes, true))
+    ),
   collapseAllNodes: () =>
+    set((state) =>
+      editNodes(state, "collapse all", collectExpandedChanges(state.nodes, false))
+    ),
+  undoCanvasEdit: () => {
+    const { canvasUndoStack } = get();
+    const edit = canvasUndoStack[canvasUndoStack.length - 1];
+    if (!edit) return;
     set((state) => ({
-      nodes: setExpandedForTree(state.nodes, false),
-    })),
+      ...applyCanvasEdit(state, edit, "before"),
+      canvasUndoStack: state.canvasUndoStack.slice(0, -1),
+      canvasRedoStack: [...state.canvasRedoStack, edit],
+    }));
+    loadExpandedChildren(edit, "before");
+  },
+  redoCanvasEdit: () => {
+    const { canvasRedoStack } = get();
+    const edit = canvasRedoStack[canvasRedoStack.length - 1];
+    if (!edit) return;
+    set((state) => ({
+      ...applyCanvasEdit(state, edit, "after"),
+      canvasUndoStack: [...state.canvasUndoStack, edit],
+      canvasRedoStack: state.canvasRedoStack.slice(0, -1),
+    }));
+    loadExpandedChildren(edit, "after");
+  },
   setZoom: (zoom) => set({ zoom }),
   setPan: (pan) => set({ pan }),
-  addRootFolder: (folderNode) =>
+  addRootFolder: (folderNode) => {
     set((state) => {
       // Calculate position to avoid overlap with existing root nodes
       const existingRootNodes = state.nodes;
@@ -430,7 +1717,177 @@ export const useFlowStore = create<FlowState>((set, get) => ({
         rootFolderIds: newRootFolderIds,
         areas: [...state.areas, newArea],
       };
-    }),
+    });
+
+    registerRootWithBackend(folderNode);
+  },
+  applyFileSystemEvent: (event) => {
+    const state = get();
+
+    if (event.type === "add") {
+      if (!event.node || findNodeByPath(state.nodes, event.path)) return;
+      const parentPath = getParentPath(event.path);
+      const parent = parentPath ? findNodeByPath(state.nodes, parentPath) : null;
+      // Unloaded parents pick the folder up when they are expanded
+      if (!parent || needsChildrenLoad(parent)) return;
+
+      const child: FolderNode = {
+        ...convertDirectoryResponse(event.node),
+        connector: parent.connector ?? "local-fs",
+      };
+      set((current) => ({
+        nodes: updateNodeInTree(current.nodes, parent.id, (target) => ({
+          ...target,
+          children: [...(target.children ?? []), child],
+          hasChildren: true,
+        })).nodes,
+        areas: addToAreasContaining(current.areas, parent.id, [child.id]),
+      }));
+      get().pulseNodes([child.id]);
+      return;
+    }
+
+    if (event.type === "remove") {
+      const node = findNodeByPath(state.nodes, event.path);
+      if (!node) return;
+
+      const removedIds = new Set(collectAllDescendantIds(node));
+      const parentPath = getParentPath(event.path);
+      const parent = parentPath ? findNodeByPath(state.nodes, parentPath) : null;
+
+      set((current) => {
+        let nodes = removeNodeFromTree(current.nodes, node.id);
+        if (parent) {
+          nodes = updateNodeInTree(nodes, parent.id, (target) => ({
+            ...target,
+            hasChildren: (target.children ?? []).length > 0,
+          })).nodes;
+        }
+
+        return {
+          nodes,
+          areas: current.areas
+            .filter((area) => !removedIds.has(area.id))
+            .map((area) => ({
+              ...area,
+              nodes: area.nodes.filter((id) => !removedIds.has(id)),
+            })),
+          rootFolderIds: new Set(
+            [...current.rootFolderIds].filter((id) => !removedIds.has(id))
+          ),
+          highlightedNodeIds: current.highlightedNodeIds.filter(
+            (id) => !removedIds.has(id)
+          ),
+          selectedNodeId:
+            current.selectedNodeId && removedIds.has(current.selectedNodeId)
+              ? null
+              : current.selectedNodeId,
+        };
+      });
+      if (parent) {
+        get().pulseNodes([parent.id]);
+      }
+      return;
+    }
+
+    const fromPath = event.from ?? "";
+    const node = fromPath ? findNodeByPath(state.nodes, fromPath) : null;
+    if (!node) {
+      // The old location was never loaded; treat it as a new folder
+      get().applyFileSystemEvent({ ...event, type: "add" });
+      return;
+    }
+
+    // Position, color, icon and areas carry over; IDs follow the new paths
+    const idMap = new Map<string, string>();
+    const fromParentPath = getParentPath(fromPath);
+    const toParentPath = getParentPath(event.path);
+
+    if (fromParentPath !== toParentPath) {
+      // Moved to another folder: re-attach the subtree under its new parent
+      const target = toParentPath
+        ? findNodeByPath(state.nodes, toParentPath)
+        : null;
+      if (!target || needsChildrenLoad(target)) {
+        // The new parent picks the folder up when it is loaded
+        get().applyFileSystemEvent({ ...event, type: "remove", path: fromPath });
+        return;
+      }
+
+      const oldParent = fromParentPath
+        ? findNodeByPath(state.nodes, fromParentPath)
+        : null;
+      const moved = offsetNodePositions(
+        {
+          ...rebaseNodePaths(node, fromPath, event.path, idMap),
+          name: getPathName(event.path),
+        },
+        target.position.x + MOVED_NODE_OFFSET.x - node.position.x,
+        target.position.y +
+          (target.children ?? []).length * MOVED_NODE_OFFSET.y -
+          node.position.y
+      );
+      const movedIds = new Set(idMap.values());
+
+      set((current) => {
+        let nodes = removeNodeFromTree(current.nodes, node.id);
+        if (oldParent) {
+          nodes = updateNodeInTree(nodes, oldParent.id, (parent) => ({
+            ...parent,
+            hasChildren: (parent.children ?? []).length > 0,
+          })).nodes;
+        }
+        nodes = updateNodeInTree(nodes, target.id, (parent) => ({
+          ...parent,
+          children: [...(parent.children ?? []), moved],
+          hasChildren: true,
+          expanded: true,
+        })).nodes;
+
+        // Areas inside the subtree move with it; areas around the old parent
+        // let go of it and areas around the new parent take it in
+        const areas = remapAreaIds(current.areas, idMap).map((area) =>
+          movedIds.has(area.id)
+            ? area
+            : { ...area, nodes: area.nodes.filter((id) => !movedIds.has(id)) }
+        );
+        return {
+          nodes,
+          areas: addToAreasContaining(areas, target.id, [...movedIds]),
+          ...remapTrackedIds(current, idMap),
+        };
+      });
+      get().pulseNodes([moved.id]);
+      return;
+    }
+
+    set((current) => {
+      const { nodes } = updateNodeInTree(current.nodes, node.id, (target) => ({
+        ...rebaseNodePaths(target, fromPath, event.path, idMap),
+        name: getPathName(event.path),
+      }));
+      return {
+        nodes,
+        areas: remapAreaIds(current.areas, idMap),
+        ...remapTrackedIds(current, idMap),
+      };
+    });
+    get().pulseNodes([idMap.get(node.id) ?? node.id]);
+  },
+  pulseNodes: (ids) => {
+    set((state) => {
+      const pulsingNodeIds = new Set(state.pulsingNodeIds);
+      ids.forEach((id) => pulsingNodeIds.add(id));
+      return { pulsingNodeIds };
+    });
+    setTimeout(() => {
+      set((state) => {
+        const pulsingNodeIds = new Set(state.pulsingNodeIds);
+        ids.forEach((id) => pulsingNodeIds.delete(id));
+        return { pulsingNodeIds };
+      });
+    }, NODE_PULSE_MS);
+  },
   loadConnectorRoot: async (connectorId, path) => {
     set({ isLoadingNodes: true });
 
@@ -444,7 +1901,10 @@ export const useFlowStore = create<FlowState>((set, get) => ({
         try {
           return await fn();
         } catch (error) {
-          if (i === retries - 1) throw error;
+          // Only an unreachable backend is worth retrying
+          const retryable =
+            error instanceof ApiError && error.code === "BACKEND_UNREACHABLE";
+          if (!retryable || i === retries - 1) throw error;
           await new Promise((resolve) => setTimeout(resolve, delay));
         }
       }
@@ -452,21 +1912,20 @@ export const useFlowStore = create<FlowState>((set, get) => ({
     };
 
     try {
-      let nodes: FolderNode[] = [];
-      if (connectorId === "everything-sdk") {
-        try {
-          const response = await retryFetch(() => listEverythingChildren(path));
-          nodes = [convertEverythingListResponse(response)];
-        } catch (everythingError) {
-          // Fallback to local-fs mock data
-          const directory = await retryFetch(() => fetchDirectory());
-          nodes = [convertDirectoryResponse(directory, true)]; // true = isRoot
-          connectorId = "local-fs";
-        }
-      } else {
-        const directory = await retryFetch(() => fetchDirectory(path));
-        nodes = [convertDirectoryResponse(directory, true)]; // true = isRoot
-      }
+      const limit = get().childPageSize;
+      const nodes =
+        connectorId === "everything-sdk"
+          ? [
+            convertEverythingListResponse(
+              await retryFetch(() => listEverythingChildren(path, limit))
+            ),
+          ]
+          : [
+            convertDirectoryResponse(
+              await retryFetch(() => fetchDirectory(path, { limit })),
+              true // isRoot
+            ),
+          ];
       // Track root folder IDs
       const rootIds = new Set(nodes.map((node) => node.id));
 
@@ -479,29 +1938,177 @@ export const useFlowStore = create<FlowState>((set, get) => ({
         areas: newAreas,
         activeConnector: connectorId,
         isLoadingNodes: false,
+        canvasUndoStack: [],
+        canvasRedoStack: [],
       });
+
+      nodes.forEach((node) => registerRootWithBackend(node));
     } catch (error) {
-      // Last resort: try to load mock data with retry
-      try {
-        const directory = await retryFetch(() => fetchDirectory(), 2, 500);
-        const nodes = [convertDirectoryResponse(directory, true)]; // true = isRoot
-        const rootIds = new Set(nodes.map((node) => node.id));
-        const newAreas = nodes.map((node) => createAreaFromNode(node));
+      set({ isLoadingNodes: false });
+      get().reportError(error, "Failed to load folders");
+    }
+  },
+  pushToast: (message, tone = "error") => {
+    const id = ++nextToastId;
+    set((state) => ({ toasts: [...state.toasts, { id, message, tone }] }));
+    setTimeout(() => get().dismissToast(id), TOAST_DURATION_MS);
+  },
+  dismissToast: (id) =>
+    set((state) => ({
+      toasts: state.toasts.filter((toast) => toast.id !== id),
+    })),
+  reportError: (error, fallbackMessage) => {
+    get().pushToast(getErrorMessage(error, fallbackMessage));
+  },
+  loadBackendConfig: async () => {
+    try {
+      const config = await fetchConfig();
+      set({
+        demoMode: config.demoMode,
+        openActions: config.openActions,
+        childPageSize: config.childPageSize ?? DEFAULT_CHILD_PAGE_SIZE,
+      });
+    } catch (error) {
+      get().reportError(error, "Failed to reach the backend");
+      return;
+    }
+    await get().refreshFolderOperations();
+  },
+  openNodeFolder: async (folderPath, actionId) => {
+    try {
+      // Without an action the backend uses its default (the file manager)
+      await (actionId
+        ? openFolderWith(folderPath, actionId)
+        : openFolder(folderPath));
+    } catch (error) {
+      get().reportError(error, "Failed to open folder");
+    }
+  },
+  requestFolderOperation: (operation) =>
+    set({ pendingFolderOperation: operation }),
+  cancelFolderOperation: () => set({ pendingFolderOperation: null }),
+  confirmFolderOperation: async (name) => {
+    const pending = get().pendingFolderOperation;
+    if (!pending) return;
+    const requestId = `move-${Date.now()}-${++nextRequestId}`;
+    set({
+      pendingFolderOperation: null,
+      folderOperationProgress:
+        pending.type === "move"
+          ? {
+            requestId,
+            label: `Moving ${pending.name}`,
+            copiedBytes: 0,
+            totalBytes: null,
+          }
+          : null,
+    });
 
-        set({
-          nodes,
-          rootFolderIds: rootIds,
-          areas: newAreas,
-          activeConnector: "local-fs",
-          isLoadingNodes: false,
-        });
-      } catch (fallbackError) {
-        set({ nodes: [], isLoadingNodes: false });
+    try {
+      const { operation, event } =
+        pending.type === "create"
+          ? await createFolder(pending.parentPath, name ?? pending.name)
+          : pending.type === "rename"
+            ? await renameFolder(pending.path, name ?? pending.name)
+            : pending.type === "move"
+              ? await moveFolder(pending.path, pending.targetPath, requestId)
+              : await trashFolder(pending.path);
+
+      // The tree is patched in place, the same way as for changes on disk
+      get().applyFileSystemEvent(event);
+      if (pending.type === "create") {
+        get().setNodeExpanded(pending.parentId, true);
       }
+      set({ lastFolderOperation: operation });
+    } catch (error) {
+      get().reportError(error, "Failed to change folder");
+    } finally {
+      set({ folderOperationProgress: null });
+    }
+  },
+  undoFolderOperation: async () => {
+    try {
+      const { operation, event } = await undoLastFolderOperation();
+      get().applyFileSystemEvent(event);
+      get().pushToast(`Undone: ${describeFolderOperation(operation)}`, "info");
+    } catch (error) {
+      get().reportError(error, "Failed to undo");
+    }
+    await get().refreshFolderOperations();
+  },
+  updateFolderOperationProgress: (progress) =>
+    set((state) =>
+      state.folderOperationProgress?.requestId === progress.requestId
+        ? {
+          folderOperationProgress: {
+            ...state.folderOperationProgress,
+            copiedBytes: progress.copiedBytes,
+            totalBytes: progress.totalBytes,
+          },
+        }
+        : {}
+    ),
+  setEventClientId: (clientId) => {
+    eventClientId = clientId;
+    watchedRootPaths = new Set();
+    syncWatchedRoots(get().nodes);
+  },
+  refreshFolderOperations: async () => {
+    try {
+      const operations = await fetchFolderOperations();
+      set({ lastFolderOperation: operations[operations.length - 1] ?? null });
+    } catch {
+      set({ lastFolderOperation: null });
     }
   },
+}), {
+  name: PERSIST_KEY,
+  version: PERSIST_VERSION,
+  // Nothing is written before the saved state has been read back, so early
+  // updates cannot overwrite it
+  storage: createJSONStorage(() => ({
+    getItem: (name) => localStorage.getItem(name),
+    setItem: (name, value) => {
+      if (useFlowStore.persist.hasHydrated()) {
+        localStorage.setItem(name, value);
+      }
+    },
+    removeItem: (name) => localStorage.removeItem(name),
+  })),
+  partialize: toPersistedState,
+  migrate: migratePersistedState,
+  merge: mergePersistedState,
+  // Read back by the page once mounted, so the server render matches the first client render
+  skipHydration: true,
 }));
 
+markContentSaved(useFlowStore.getState());
+
+// Every change to the nodes, areas or layout mode leaves unsaved changes and
+// (re)starts the autosave countdown
+useFlowStore.subscribe((state, previous) => {
+  if (
+    (state.nodes === previous.nodes &&
+      state.areas === previous.areas &&
+      state.layoutMode === previous.layoutMode) ||
+    isContentSaved(state) ||
+    state.demoMode
+  ) {
+    return;
+  }
+  if (state.layoutSaveStatus !== "saving" && state.layoutSaveStatus !== "dirty") {
+    useFlowStore.setState({ layoutSaveStatus: "dirty" });
+  }
+  scheduleAutosave();
+});
+
+// The backend watches whatever roots are on the canvas
+useFlowStore.subscribe((state, previous) => {
+  if (state.nodes !== previous.nodes) {
+    syncWatchedRoots(state.nodes);
+  }
+});
+
 function collectMatchingNodes(
   nodes: FolderNode[],
   query: string
@@ -596,6 +2203,60 @@ function applySearchQueryToState(state: FlowState, query: string) {
   };
 }
 
+function collectLocalRootPaths(nodes: FolderNode[]): string[] {
+  return nodes
+    .filter((node) => (node.connector ?? "local-fs") === "local-fs")
+    .map((node) => node.path);
+}
+
+function findNodeByPath(
+  nodes: FolderNode[],
+  path: string
+): FolderNode | null {
+  for (const node of nodes) {
+    if (node.path === path) {
+      return node;
+    }
+    if (node.children && node.children.length > 0) {
+      const match = findNodeByPath(node.children, path);
+      if (match) {
+        return match;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Append backend index hits to the matches found in the loaded tree,
+ * skipping paths that are already listed
+ */
+function mergeIndexedMatches(
+  nodes: FolderNode[],
+  matches: SearchMatch[],
+  results: FileSearchResult[]
+): SearchMatch[] {
+  const seenPaths = new Set(matches.map((match) => match.path));
+  const merged = [...matches];
+
+  for (const result of results) {
+    if (merged.length >= 25) break;
+    if (seenPaths.has(result.path)) continue;
+    seenPaths.add(result.path);
+
+    const loadedNode = findNodeByPath(nodes, result.path);
+    merged.push({
+      id: loadedNode?.id ?? createNodeId("local-fs", result.path),
+      name: result.name,
+      path: result.path,
+      icon: loadedNode?.icon ?? "folder",
+      connector: "local-fs",
+    });
+  }
+
+  return merged;
+}
+
 function findNodeById(nodes: FolderNode[], id: string): FolderNode | null {
   for (const node of nodes) {
     if (node.id === id) {
@@ -634,12 +2295,40 @@ function collectAllDescendantIds(node: FolderNode): string[] {
   return ids;
 }
 
+/**
+ * Find the chain of loaded nodes leading to the deepest loaded ancestor of
+ * `targetPath` (or the target itself when it is already loaded)
+ */
+function findAncestorTrail(
+  nodes: FolderNode[],
+  targetPath: string
+): FolderNode[] {
+  let best: FolderNode[] = [];
+
+  const walk = (list: FolderNode[], trail: FolderNode[]) => {
+    list.forEach((node) => {
+      if (!isSameOrAncestorPath(node.path, targetPath)) return;
+      const nextTrail = [...trail, node];
+      if (
+        best.length === 0 ||
+        node.path.length > best[best.length - 1].path.length
+      ) {
+        best = nextTrail;
+      }
+      walk(node.children ?? [], nextTrail);
+    });
+  };
+
+  walk(nodes, []);
+  return best;
+}
+
 function createNodeFromSearchMatch(
   match: SearchMatch,
   connectorId: string
 ): FolderNode {
   return {
-    id: match.id,
+    id: createNodeId(connectorId, match.path),
     name: match.name,
     path: match.path,
     icon: match.icon || "folder",
@@ -647,41 +2336,68 @@ function createNodeFromSearchMatch(
     position: { x: 0, y: 0 },
     children: [],
     expanded: false,
-    hasChildren: true,
+    hasChildren: match.icon !== "file",
     connector: connectorId,
   };
 }
 
+// Subfolders in all when a page left some out, otherwise undefined
+function getPagedTotal(total: number, loaded: number): number | undefined {
+  return total > loaded ? total : undefined;
+}
+
+// One page of a folder's children from its connector
+async function fetchChildPage(
+  node: FolderNode,
+  page: ChildPage
+): Promise<{ children: FolderNode[]; total: number }> {
+  if (node.connector === "everything-sdk") {
+    const response = await listEverythingChildren(
+      node.path,
+      page.limit,
+      page.offset
+    );
+    return {
+      children: response.children.map((child) => convertEverythingEntry(child)),
+      total: response.total,
+    };
+  }
+
+  const response = await fetchDirectoryChildren(node.path, page);
+  return {
+    children: response.children.map((child) => convertDirectoryResponse(child)),
+    total: response.total,
+  };
+}
+
 function convertDirectoryResponse(
   dir: DirectoryResponse,
   isRoot = false,
   depth = 0
 ): FolderNode {
-  // Fully expand all nodes when folder is added (all depths expanded)
-  const shouldExpand = true; // Always expand all nodes
-
+  const children = dir.children
+    ? dir.children.map((child) =>
+      convertDirectoryResponse(child, false, depth + 1)
+    )
+    : [];
   return {
-    id: dir.id || generateNodeId(dir.path),
+    id: createNodeId("local-fs", dir.path),
     name: dir.name,
     path: dir.path,
     icon: dir.icon || "folder",
     color: dir.color || "#e0e0e0",
     position: dir.position || { x: 0, y: 0 },
-    children: dir.children
-      ? dir.children.map((child) =>
-        convertDirectoryResponse(child, false, depth + 1)
-      )
-      : [],
-    expanded: shouldExpand, // Fully expand all nodes
-    hasChildren: Boolean(dir.children && dir.children.length > 0),
+    children,
+    expanded: isRoot, // Deeper levels are loaded and expanded on demand
+    hasChildren: dir.hasChildren ?? children.length > 0,
+    totalChildren: getPagedTotal(dir.totalChildren ?? 0, children.length),
     connector: "local-fs",
   };
 }
 
 function convertEverythingEntry(entry: EverythingEntry): FolderNode {
-  const nodeId = entry.path || entry.id || generateNodeId(entry.name);
   return {
-    id: nodeId,
+    id: createNodeId("everything-sdk", entry.path || entry.name),
     name: entry.name,
     path: entry.path || entry.name,
     icon: entry.icon || (entry.type === "folder" ? "folder" : "file"),
@@ -698,7 +2414,7 @@ function convertEverythingListResponse(
   response: EverythingListResponse
 ): FolderNode {
   return {
-    id: response.path || generateNodeId(response.name),
+    id: createNodeId("everything-sdk", response.path || response.name),
     name: response.name,
     path: response.path,
     icon: "folder",
@@ -707,6 +2423,210 @@ function convertEverythingListResponse(
     children: response.children.map((child) => convertEverythingEntry(child)),
     expanded: true,
     hasChildren: true,
+    totalChildren: getPagedTotal(response.total, response.children.length),
     connector: "everything-sdk",
   };
 }
+
+interface LayoutReconciliation {
+  idMap: Map<string, string>; // Saved node ID -> path-derived ID
+  added: Map<string, string[]>; // Parent ID -> IDs of folders new on disk
+  addedPaths: string[];
+  missingPaths: string[];
+  uncheckedPaths: string[]; // Folders the connector could not list
+  kept: number;
+  pageSize: number; // Children listed per folder at least, as on the canvas
+  limitFetch: <T>(task: () => Promise<T>) => Promise<T>;
+}
+
+/**
+ * Check a saved layout against disk: re-scan its folders so styling carries
+ * over to what is there now, and add new folders to the areas of their parent
+ */
+async function reconcileSavedLayout(layout: SavedLayout, pageSize: number) {
+  const reconciliation = createReconciliation(pageSize);
+  const nodes = await Promise.all(
+    layout.nodes.map((root) => reconcileSavedNode(root, reconciliation, true))
+  );
+
+  let areas = remapAreaIds(layout.areas, reconciliation.idMap);
+  reconciliation.added.forEach((ids, parentId) => {
+    areas = addToAreasContaining(areas, parentId, ids);
+  });
+  return { nodes, areas, reconciliation };
+}
+
+function createReconciliation(pageSize: number): LayoutReconciliation {
+  return {
+    pageSize,
+    idMap: new Map(),
+    added: new Map(),
+    addedPaths: [],
+    missingPaths: [],
+    uncheckedPaths: [],
+    kept: 0,
+    limitFetch: createTaskLimiter(RECONCILE_CONCURRENCY),
+  };
+}
+
+// Run at most `limit` tasks at once; the rest wait for a free slot
+function createTaskLimiter(limit: number) {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    if (active < limit) {
+      active++;
+    } else {
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    }
+    try {
+      return await task();
+    } finally {
+      // Hand the slot straight to the next task in line
+      const next = waiting.shift();
+      if (next) {
+        next();
+      } else {
+        active--;
+      }
+    }
+  };
+}
+
+// The first `limit` current children of a saved folder, or null when the
+// folder is gone. Connectors cap their pages, so this may take several
+async function fetchCurrentChildren(
+  node: FolderNode,
+  limit: number
+): Promise<{ children: FolderNode[]; total: number } | null> {
+  try {
+    const children: FolderNode[] = [];
+    let total = 0;
+    do {
+      const page = await fetchChildPage(node, {
+        offset: children.length,
+        limit: limit - children.length,
+      });
+      children.push(...page.children);
+      total = page.total;
+      if (page.children.length === 0) break;
+    } while (children.length < Math.min(limit, total));
+    return { children, total };
+  } catch (error) {
+    if (
+      node.connector !== "everything-sdk" &&
+      error instanceof ApiError &&
+      error.status === 404
+    ) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Give a saved subtree path-derived IDs without checking it against disk
+function rekeySavedTree(
+  node: FolderNode,
+  idMap: Map<string, string>,
+  missing?: boolean
+): FolderNode {
+  const connector = node.connector ?? "local-fs";
+  const id = createNodeId(connector, node.path);
+  idMap.set(node.id, id);
+  return {
+    ...node,
+    id,
+    connector,
+    missing: missing ?? node.missing,
+    children: (node.children ?? []).map((child) =>
+      rekeySavedTree(child, idMap, missing)
+    ),
+  };
+}
+
+/**
+ * Match a saved node against a fresh scan of its folder. Folders that still
+ * exist keep their saved styling and position, folders that disappeared are
+ * kept but flagged as missing, and new folders are added as scanned.
+ * Only as many children as were saved are listed again; saved folders past
+ * that listing are kept as they were. Listings share the reconciliation's limit, so large layouts do not flood
+ * the backend with requests.
+ */
+async function reconcileSavedNode(
+  saved: FolderNode,
+  result: LayoutReconciliation,
+  isRoot = false
+): Promise<FolderNode> {
+  const savedChildren = saved.children ?? [];
+  // Children were never loaded; expanding the node picks up the current ones
+  if (!isRoot && savedChildren.length === 0) {
+    result.kept++;
+    return rekeySavedTree(saved, result.idMap, false);
+  }
+
+  let listing: { children: FolderNode[]; total: number } | null;
+  try {
+    // As many children as were saved, so none of them falls off the page
+    const limit = Math.max(savedChildren.length, result.pageSize);
+    listing = await result.limitFetch(() => fetchCurrentChildren(saved, limit));
+  } catch {
+    // Connector unreachable: restore the saved subtree as it was
+    result.uncheckedPaths.push(saved.path);
+    return rekeySavedTree(saved, result.idMap);
+  }
+
+  if (listing === null) {
+    result.missingPaths.push(saved.path);
+    return rekeySavedTree(saved, result.idMap, true);
+  }
+
+  const current = listing.children;
+  // Folders past the pages that were loaded are not new, just not seen yet
+  const wasPaged = saved.totalChildren !== undefined;
+  // Saved folders past the listed ones may still be there further down
+  const isPartial = listing.total > current.length;
+  result.kept++;
+  const node = rekeySavedTree({ ...saved, children: [] }, result.idMap, false);
+  const savedById = new Map(
+    savedChildren.map((child) => [
+      createNodeId(child.connector ?? node.connector ?? "local-fs", child.path),
+      child,
+    ])
+  );
+  const currentIds = new Set(current.map((child) => child.id));
+
+  const children = await Promise.all(
+    current.map((child) => {
+      const savedChild = savedById.get(child.id);
+      if (savedChild) {
+        return reconcileSavedNode(savedChild, result);
+      }
+      if (!wasPaged) {
+        result.addedPaths.push(child.path);
+        result.added.set(node.id, [
+          ...(result.added.get(node.id) ?? []),
+          ...collectAllDescendantIds(child),
+        ]);
+      }
+      return Promise.resolve(child);
+    })
+  );
+
+  const unlisted = [...savedById.entries()]
+    .filter(([id]) => !currentIds.has(id))
+    .map(([, child]) => {
+      if (isPartial) {
+        return rekeySavedTree(child, result.idMap);
+      }
+      result.missingPaths.push(child.path);
+      return rekeySavedTree(child, result.idMap, true);
+    });
+  const merged = [...children, ...unlisted];
+
+  return {
+    ...node,
+    children: merged,
+    hasChildren: merged.length > 0,
+    totalChildren: getPagedTotal(listing.total, merged.length),
+  };
+}